@@ -1,129 +1,197 @@
 import chalk from "chalk";
 import ora from "ora";
-import { isAuthenticated } from "../lib/config.js";
+import { relative } from "path";
+import { getConfig, isAuthenticated } from "../lib/config.js";
 import { api } from "../lib/api.js";
-import { savePage } from "../lib/files.js";
+import {
+  findLocalPage,
+  getLocalPagePath,
+  getPageSyncState,
+  indexRemotePages,
+  readLocalPage,
+  savePage,
+} from "../lib/files.js";
 import { initGitIfNeeded, commitChanges } from "../lib/git.js";
-import { getCliConfig, setCliConfig, clearCliConfig } from "../lib/cli-config.js";
+import { withDestination, type Destination } from "../lib/destination.js";
+import { execCapture, formatExecResult, readStdin, toCodeBlock } from "../lib/capture.js";
+import type { Page } from "../types/index.js";
+
+interface AddOptions {
+  daily?: boolean;
+  to?: string;
+  code?: string | boolean;
+  exec?: string;
+}
+
+// Where a page sits, which append responses may leave out
+type PageLocation = Pick<Page, "id" | "workspace_slug" | "parent_id">;
 
-const CLI_PAGES_TITLE = "CLI Pages";
-const CLI_NOTES_WORKSPACE = "CLI Notes";
-const QUICK_NOTES_TITLE = "Quick Notes";
+const JOURNAL_TITLE = "Journal";
+
+function pad(n: number): string {
+  return String(n).padStart(2, "0");
+}
 
 /**
- * Get or create the destination for CLI pages.
+ * A timestamped list item; further lines are indented under it. A leading
+ * code block starts on its own line.
  */
-async function getCliDestination(skipCache = false): Promise<{
-  workspaceSlug: string;
-  parentId?: string;
-}> {
-  const cliConfig = getCliConfig();
-
-  if (!skipCache && cliConfig.destinationWorkspace) {
-    return {
-      workspaceSlug: cliConfig.destinationWorkspace,
-      parentId: cliConfig.destinationParentId,
-    };
-  }
+function toBullet(text: string, now: Date): string {
+  const lines = text.trim().split("\n");
+  const time = `${pad(now.getHours())}:${pad(now.getMinutes())}`;
+  const first = lines[0].startsWith("```") ? "" : ` ${lines.shift()}`;
+  return [`- ${time}${first}`, ...lines.map((line) => (line ? `  ${line}` : ""))].join("\n");
+}
 
-  const workspaces = await api.getWorkspaces();
+/**
+ * The note's text: the argument, stdin when the argument is "-" or left
+ * out, or what --exec printed. --code puts it in a code block. The summary
+ * is the plain text the title is made from.
+ */
+async function readNote(text: string | undefined, options: AddOptions): Promise<{ text: string; summary: string }> {
+  const lang = typeof options.code === "string" ? options.code : "";
 
-  if (workspaces.length === 0) {
-    const ws = await api.createWorkspace(CLI_NOTES_WORKSPACE);
-    setCliConfig({
-      destinationWorkspace: ws.slug,
-      destinationType: "workspace",
-    });
-    return { workspaceSlug: ws.slug };
+  if (options.exec) {
+    const result = await execCapture(options.exec);
+    return { text: formatExecResult(options.exec, result, lang), summary: `$ ${options.exec}` };
   }
 
-  if (workspaces.length === 1) {
-    const ws = workspaces[0];
-    const pages = await api.getPages(ws.slug);
-    const cliPagesParent = pages.find((p) => p.title === CLI_PAGES_TITLE);
-
-    if (cliPagesParent) {
-      setCliConfig({
-        destinationWorkspace: ws.slug,
-        destinationParentId: cliPagesParent.id,
-        destinationType: "parent",
-      });
-      return { workspaceSlug: ws.slug, parentId: cliPagesParent.id };
-    }
-
-    const parent = await api.createPage(CLI_PAGES_TITLE, "", ws.slug);
-    savePage({ ...parent, workspace_slug: ws.slug });
+  const raw = text === undefined || text === "-" ? await readStdin() : text;
+  if (!raw.trim()) throw new Error("Nothing to add");
+  return { text: options.code ? toCodeBlock(raw, lang) : raw, summary: raw.trim() };
+}
 
-    setCliConfig({
-      destinationWorkspace: ws.slug,
-      destinationParentId: parent.id,
-      destinationType: "parent",
-    });
+/**
+ * Update the local copy of a page after appending to it. Copies with
+ * unpushed edits are left alone; the next pull merges them.
+ */
+function saveAppendedPage(appended: Page, target: PageLocation): string | null {
+  const page = {
+    ...appended,
+    workspace_slug: target.workspace_slug,
+    parent_id: appended.parent_id ?? target.parent_id,
+  };
+  const pagePath = getLocalPagePath(page);
+  const local = readLocalPage(pagePath);
+  if (local && getPageSyncState({ path: pagePath, ...local }) !== "synced") return null;
+  return savePage(page);
+}
 
-    return { workspaceSlug: ws.slug, parentId: parent.id };
+/**
+ * Append to today's page under Journal, creating either page when missing
+ */
+async function addToJournal(text: string, dest: Destination): Promise<{ page: Page; created: boolean }> {
+  const now = new Date();
+  const today = `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+  const pages = await api.getPages(dest.workspaceSlug);
+
+  let journal = pages.find((p) => p.title === JOURNAL_TITLE && (p.parent_id ?? undefined) === dest.parentId);
+  if (!journal) {
+    const created = await api.createPage(JOURNAL_TITLE, "", dest.workspaceSlug, dest.parentId);
+    journal = { ...created, workspace_slug: dest.workspaceSlug, parent_id: created.parent_id ?? dest.parentId };
   }
 
-  const existingCliNotes = workspaces.find(
-    (ws) => ws.name === CLI_NOTES_WORKSPACE || ws.slug === "cli-notes"
-  );
+  const existing = pages.find((p) => p.title === today && p.parent_id === journal.id);
+  const page = existing
+    ? await api.appendToPage(existing.id, toBullet(text, now))
+    : await api.createPage(today, toBullet(text, now), dest.workspaceSlug, journal.id);
+  const day = { ...page, workspace_slug: dest.workspaceSlug, parent_id: page.parent_id ?? journal.id };
 
-  if (existingCliNotes) {
-    setCliConfig({
-      destinationWorkspace: existingCliNotes.slug,
-      destinationType: "workspace",
-    });
-    return { workspaceSlug: existingCliNotes.slug };
-  }
+  // Place the day page inside the Journal folder even if Journal was never pulled
+  indexRemotePages([journal, day]);
+  if (!readLocalPage(getLocalPagePath(journal))) savePage(journal);
 
-  const ws = await api.createWorkspace(CLI_NOTES_WORKSPACE);
-  setCliConfig({
-    destinationWorkspace: ws.slug,
-    destinationType: "workspace",
-  });
+  return { page: day, created: !existing };
+}
 
-  return { workspaceSlug: ws.slug };
+/**
+ * Find the page lh add --to appends to: a local page (path, id, slug or
+ * workspace/slug), or a page id on LumifyHub
+ */
+async function resolveTargetPage(ref: string): Promise<PageLocation> {
+  const local = findLocalPage(ref);
+  if (local?.meta.id) return local.meta;
+  if (local) throw new Error(`${ref} hasn't been pushed yet. Run 'lh push' first.`);
+
+  try {
+    return await api.getPage(ref);
+  } catch {
+    throw new Error(`Page not found: ${ref}`);
+  }
 }
 
 /**
- * Quick add - creates a timestamped note or appends to Quick Notes page
+ * Quick add - creates a note from text, or appends it to today's journal
+ * page (--daily) or to an existing page (--to)
  */
-export async function addCommand(text: string): Promise<void> {
+export async function addCommand(textArg: string | undefined, options: AddOptions = {}): Promise<void> {
   if (!isAuthenticated()) {
     console.log(chalk.red("Not logged in. Run 'lh login' first."));
     return;
   }
 
-  const spinner = ora("Adding note...").start();
+  if (options.daily && options.to) {
+    console.log(chalk.red("Use either --daily or --to, not both."));
+    return;
+  }
+
+  if (options.exec && textArg !== undefined) {
+    console.log(chalk.red("Use either <text> or --exec, not both."));
+    return;
+  }
+
+  if (!options.exec && (textArg === undefined || textArg === "-") && process.stdin.isTTY) {
+    console.log(chalk.red("Missing text. Usage: lh add \"<text>\", or pipe text into lh add"));
+    return;
+  }
+
+  const spinner = ora(options.exec ? `Running ${options.exec}...` : "Adding note...").start();
 
   try {
-    let dest = await getCliDestination();
-
-    // Generate a title from the first few words
-    const words = text.split(/\s+/).slice(0, 5).join(" ");
-    const title = words.length > 30 ? words.slice(0, 30) + "..." : words;
-
-    let page;
-    try {
-      page = await api.createPage(title, text, dest.workspaceSlug, dest.parentId);
-    } catch (error) {
-      // If workspace not found, clear cache and retry
-      if (error instanceof Error && error.message.includes("Workspace not found")) {
-        clearCliConfig();
-        dest = await getCliDestination(true);
-        page = await api.createPage(title, text, dest.workspaceSlug, dest.parentId);
-      } else {
-        throw error;
-      }
+    const { text, summary } = await readNote(textArg, options);
+    spinner.text = "Adding note...";
+
+    let pagePath: string | null;
+    let message: string;
+
+    if (options.daily) {
+      const { page, created } = await withDestination((dest) => addToJournal(text, dest));
+      pagePath = created ? savePage(page) : saveAppendedPage(page, page);
+      spinner.succeed(chalk.green(`Added to ${JOURNAL_TITLE}/${page.title}`));
+      message = `Journal: ${page.title}`;
+    } else if (options.to) {
+      const target = await resolveTargetPage(options.to);
+      const page = await api.appendToPage(target.id, toBullet(text, new Date()));
+      pagePath = saveAppendedPage(page, target);
+      spinner.succeed(chalk.green(`Added to ${page.title}`));
+      message = `Append to ${page.title}`;
+    } else {
+      // Generate a title from the first few words
+      const words = summary.split("\n")[0].split(/\s+/).slice(0, 5).join(" ");
+      const title = words.length > 30 ? words.slice(0, 30) + "..." : words;
+
+      const { page, dest } = await withDestination(async (dest) => ({
+        page: await api.createPage(title, text, dest.workspaceSlug, dest.parentId),
+        dest,
+      }));
+      pagePath = savePage({
+        ...page,
+        workspace_slug: dest.workspaceSlug,
+        parent_id: page.parent_id ?? dest.parentId,
+      });
+      spinner.succeed(chalk.green("Added!"));
+      message = `Quick note: ${title}`;
     }
 
-    savePage({ ...page, workspace_slug: dest.workspaceSlug });
-
-    spinner.succeed(chalk.green("Added!"));
-    console.log(chalk.gray(`  ${dest.workspaceSlug}/${page.slug}.md`));
+    if (pagePath) {
+      console.log(chalk.gray(`  ${relative(getConfig().pagesDir, pagePath)}`));
+    } else {
+      console.log(chalk.yellow("  The local copy has unpushed edits; run 'lh pull' to bring in the new note"));
+    }
 
     // Auto-commit if git available
     initGitIfNeeded();
-    commitChanges(`Quick note: ${title}`);
+    commitChanges(message);
   } catch (error) {
     spinner.fail("Failed to add note");
     console.error(
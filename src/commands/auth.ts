@@ -1,22 +1,8 @@
 import chalk from "chalk";
 import ora from "ora";
-import { createInterface } from "readline";
-import { getConfig, setToken, clearAuth, isAuthenticated } from "../lib/config.js";
+import { getActiveProfile, getConfig, setToken, clearAuth, isAuthenticated, DEFAULT_PROFILE } from "../lib/config.js";
 import { api } from "../lib/api.js";
-
-function prompt(question: string): Promise<string> {
-  const rl = createInterface({
-    input: process.stdin,
-    output: process.stdout,
-  });
-
-  return new Promise((resolve) => {
-    rl.question(question, (answer) => {
-      rl.close();
-      resolve(answer.trim());
-    });
-  });
-}
+import { prompt } from "../lib/prompt.js";
 
 export async function loginCommand(): Promise<void> {
   if (isAuthenticated()) {
@@ -81,4 +67,7 @@ export async function whoamiCommand(): Promise<void> {
   console.log(chalk.blue("Logged in as:"), chalk.green(config.email));
   console.log(chalk.gray(`API: ${config.apiUrl}`));
   console.log(chalk.gray(`Pages: ${config.pagesDir}`));
+  if (getActiveProfile() !== DEFAULT_PROFILE) {
+    console.log(chalk.gray(`Profile: ${getActiveProfile()}`));
+  }
 }
@@ -1,9 +1,18 @@
 import chalk from "chalk";
-import { getConfig, setApiUrl, setPagesDir } from "../lib/config.js";
+import {
+  getActiveProfile,
+  getConfig,
+  setApiUrl,
+  setDatabasesDir,
+  setPagesDir,
+  setPropertyKeys,
+} from "../lib/config.js";
 
 interface ConfigOptions {
   apiUrl?: string;
   pagesDir?: string;
+  databasesDir?: string;
+  propertyKeys?: string;
 }
 
 export async function configCommand(options: ConfigOptions): Promise<void> {
@@ -17,12 +26,35 @@ export async function configCommand(options: ConfigOptions): Promise<void> {
     console.log(chalk.green(`Pages directory set to: ${options.pagesDir}`));
   }
 
+  if (options.databasesDir) {
+    setDatabasesDir(options.databasesDir);
+    console.log(chalk.green(`Databases directory set to: ${options.databasesDir}`));
+  }
+
+  if (options.propertyKeys !== undefined) {
+    const keys = options.propertyKeys
+      .split(",")
+      .map((key) => key.trim())
+      .filter(Boolean);
+    setPropertyKeys(keys);
+    console.log(
+      keys.length > 0
+        ? chalk.green(`Frontmatter keys synced as page properties: ${keys.join(", ")}`)
+        : chalk.green("No frontmatter keys are synced as page properties")
+    );
+  }
+
   // If no options, show current config
-  if (!options.apiUrl && !options.pagesDir) {
+  if (!options.apiUrl && !options.pagesDir && !options.databasesDir && options.propertyKeys === undefined) {
     const config = getConfig();
     console.log(chalk.blue("\nCurrent configuration:\n"));
+    console.log(`  Profile:    ${chalk.cyan(getActiveProfile())}`);
     console.log(`  API URL:    ${chalk.cyan(config.apiUrl)}`);
     console.log(`  Pages dir:  ${chalk.cyan(config.pagesDir)}`);
+    console.log(`  DBs dir:    ${chalk.cyan(config.databasesDir)}`);
+    console.log(
+      `  Properties: ${config.propertyKeys.length > 0 ? chalk.cyan(config.propertyKeys.join(", ")) : chalk.gray("None")}`
+    );
     console.log(`  Logged in:  ${config.token ? chalk.green(config.email) : chalk.gray("No")}`);
     console.log("");
   }
@@ -0,0 +1,50 @@
+import chalk from "chalk";
+import { relative } from "path";
+import { getConfig, isAuthenticated } from "../lib/config.js";
+import { findLocalPage, getPageUrl, type LocalPage } from "../lib/files.js";
+import { toRemoteContent } from "../lib/content.js";
+import { writeClipboard } from "../lib/clipboard.js";
+
+interface CopyOptions {
+  url?: boolean;
+}
+
+export async function copyCommand(pageRef: string, options: CopyOptions): Promise<void> {
+  if (!isAuthenticated()) {
+    console.log(chalk.red("Not logged in. Run 'lh login' first."));
+    return;
+  }
+
+  let page: LocalPage | null;
+  try {
+    page = findLocalPage(pageRef);
+  } catch (error) {
+    console.log(chalk.red(error instanceof Error ? error.message : "Unknown error"));
+    return;
+  }
+  if (!page) {
+    console.log(chalk.red(`Page not found: ${pageRef}`));
+    return;
+  }
+
+  const displayPath = relative(getConfig().pagesDir, page.path);
+  if (options.url && !page.meta.id) {
+    console.log(chalk.red(`${displayPath} hasn't been pushed yet, so it has no URL. Run 'lh push' first.`));
+    return;
+  }
+
+  const text = options.url ? getPageUrl(page.meta.id) : toRemoteContent(page.content, page.path);
+
+  try {
+    writeClipboard(text);
+  } catch (error) {
+    console.log(chalk.red(`Failed to copy to clipboard: ${error instanceof Error ? error.message : "Unknown error"}`));
+    return;
+  }
+
+  if (options.url) {
+    console.log(chalk.green(`Copied link to ${page.meta.title}: ${text}`));
+  } else {
+    console.log(chalk.green(`Copied ${displayPath} to the clipboard`));
+  }
+}
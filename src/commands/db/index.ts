@@ -1,4 +1,4 @@
 export { dbPullCommand, pullDatabases } from "./pull.js";
-export { dbPushCommand } from "./push.js";
+export { dbPushCommand, pushDatabases } from "./push.js";
 export { dbStatusCommand } from "./status.js";
 export { dbListCommand } from "./list.js";
@@ -10,11 +10,14 @@ import {
   apiRowToLocal,
 } from "../../lib/db-files.js";
 import { initGitIfNeeded, commitChanges } from "../../lib/git.js";
+import { withSyncLock } from "../../lib/lock.js";
 import type { DatabaseRow, PropertyMeta, DataSourceMeta } from "../../types/index.js";
 
 interface DbPullOptions {
   workspace?: string;
   force?: boolean;
+  // Running unattended (lh watch): no per-database output
+  background?: boolean;
 }
 
 interface DbPullResult {
@@ -56,6 +59,8 @@ export async function pullDatabases(
     }
   }
 
+  const log = options.background ? () => {} : console.log;
+
   let pulled = 0;
   let skipped = 0;
   let conflicts = 0;
@@ -104,8 +109,8 @@ export async function pullDatabases(
 
       if (isLocalModified) {
         conflicts++;
-        console.log(chalk.yellow(`\n  DB Conflict: ${database.workspace_slug}/${database.slug}`));
-        console.log(chalk.gray("    Use --force to overwrite local changes"));
+        log(chalk.yellow(`\n  DB Conflict: ${database.workspace_slug}/${database.slug}`));
+        log(chalk.gray("    Use --force to overwrite local changes"));
         continue;
       }
 
@@ -149,7 +154,7 @@ export async function dbPullCommand(databaseSlug?: string, options: DbPullOption
   const spinner = ora("Fetching databases from LumifyHub...").start();
 
   try {
-    const result = await pullDatabases(options, databaseSlug, spinner);
+    const result = await withSyncLock(() => pullDatabases(options, databaseSlug, spinner));
 
     spinner.succeed("Pull complete");
     if (result.pulled > 0) console.log(chalk.green(`  Pulled: ${result.pulled} databases`));
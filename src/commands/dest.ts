@@ -0,0 +1,114 @@
+import chalk from "chalk";
+import ora from "ora";
+import { resolve } from "path";
+import { isAuthenticated } from "../lib/config.js";
+import {
+  clearCliConfig,
+  getCliConfig,
+  removeDirectoryDestination,
+  setCliConfig,
+  setDirectoryDestination,
+} from "../lib/cli-config.js";
+import {
+  CLI_NOTES_WORKSPACE,
+  CLI_PAGES_TITLE,
+  findDirectoryDestination,
+  formatDestination,
+  getConfiguredDestination,
+  resolveDestinationSpec,
+} from "../lib/destination.js";
+
+interface DestDirOptions {
+  // true for the current directory
+  dir?: string | boolean;
+}
+
+function getDir(options: DestDirOptions): string | null {
+  if (!options.dir) return null;
+  return resolve(typeof options.dir === "string" ? options.dir : ".");
+}
+
+export async function destShowCommand(): Promise<void> {
+  const dest = getConfiguredDestination();
+
+  if (!dest) {
+    console.log(chalk.yellow("No capture destination yet."));
+    console.log(
+      chalk.gray(
+        `  lh add and lh new pick one on first use: a "${CLI_PAGES_TITLE}" page if you have one workspace, otherwise a "${CLI_NOTES_WORKSPACE}" workspace.`
+      )
+    );
+    console.log(chalk.gray("  Choose one with: lh dest set <workspace>[/<parent page>]"));
+  } else {
+    console.log(`${chalk.cyan(formatDestination(dest))}`);
+    if (dest.source === "directory") {
+      console.log(chalk.gray(`  Set for ${dest.dir}`));
+    } else if (dest.source === "custom") {
+      console.log(chalk.gray("  Set with lh dest set"));
+    } else {
+      console.log(chalk.gray("  Picked automatically. Change it with lh dest set"));
+    }
+  }
+
+  const directories = Object.entries(getCliConfig().directoryDestinations ?? {});
+  if (directories.length > 0) {
+    console.log(chalk.blue("\nDirectory destinations:\n"));
+    for (const [dir, entry] of directories.sort(([a], [b]) => a.localeCompare(b))) {
+      const target = entry.parentTitle ? `${entry.workspace}/${entry.parentTitle}` : entry.workspace;
+      console.log(`  ${dir}  ${chalk.cyan(target)}`);
+    }
+  }
+}
+
+export async function destSetCommand(spec: string, options: DestDirOptions): Promise<void> {
+  if (!isAuthenticated()) {
+    console.log(chalk.red("Not logged in. Run 'lh login' first."));
+    return;
+  }
+
+  const spinner = ora(`Looking up ${spec}...`).start();
+
+  try {
+    const destination = await resolveDestinationSpec(spec);
+    const target = destination.parentTitle ? `${destination.workspace}/${destination.parentTitle}` : destination.workspace;
+    const dir = getDir(options);
+
+    if (dir) {
+      setDirectoryDestination(dir, destination);
+      spinner.succeed(`Notes captured in ${dir} now go to ${chalk.cyan(target)}`);
+    } else {
+      clearCliConfig();
+      setCliConfig({
+        destinationWorkspace: destination.workspace,
+        destinationParentId: destination.parentId,
+        destinationParentTitle: destination.parentTitle,
+        destinationType: "custom",
+      });
+      spinner.succeed(`Notes now go to ${chalk.cyan(target)}`);
+
+      const override = findDirectoryDestination();
+      if (override) {
+        console.log(chalk.gray(`  Except in ${override.dir}, which goes to ${formatDestination(override)}`));
+      }
+    }
+  } catch (error) {
+    spinner.fail("Failed to set destination");
+    console.error(chalk.red(error instanceof Error ? error.message : "Unknown error"));
+  }
+}
+
+export async function destResetCommand(options: DestDirOptions): Promise<void> {
+  const dir = getDir(options);
+
+  if (dir) {
+    if (removeDirectoryDestination(dir)) {
+      console.log(chalk.green(`Removed the destination for ${dir}`));
+    } else {
+      console.log(chalk.yellow(`${dir} has no destination of its own`));
+    }
+    return;
+  }
+
+  clearCliConfig();
+  console.log(chalk.green("Capture destination reset. lh add and lh new will pick one on next use."));
+}
@@ -0,0 +1,221 @@
+import chalk from "chalk";
+import ora from "ora";
+import { relative } from "path";
+import { getConfig, isAuthenticated } from "../lib/config.js";
+import { api, EndpointNotSupportedError } from "../lib/api.js";
+import {
+  findLocalPage,
+  getAllLocalPages,
+  getPageSyncState,
+  readBaseContent,
+  type LocalPage,
+} from "../lib/files.js";
+import { diffHunks, type DiffHunk } from "../lib/diff.js";
+import { mapWithConcurrency } from "../lib/concurrency.js";
+import { toLocalContent } from "../lib/content.js";
+import type { PageHash } from "../types/index.js";
+
+interface DiffOptions {
+  remote?: boolean;
+  stat?: boolean;
+  json?: boolean;
+}
+
+interface PageDiff {
+  path: string;
+  id?: string;
+  title: string;
+  workspace: string;
+  // What the working copy is compared against
+  against: "base" | "remote";
+  additions: number;
+  deletions: number;
+  hunks: DiffHunk[];
+}
+
+// Parallel page downloads for --remote
+const FETCH_CONCURRENCY = 8;
+
+function buildDiff(page: LocalPage, against: PageDiff["against"], oldContent: string): PageDiff {
+  const hunks = diffHunks(oldContent, page.content);
+  let additions = 0;
+  let deletions = 0;
+  for (const hunk of hunks) {
+    for (const line of hunk.lines) {
+      if (line.startsWith("+")) additions++;
+      else if (line.startsWith("-")) deletions++;
+    }
+  }
+
+  return {
+    path: relative(getConfig().pagesDir, page.path),
+    id: page.meta.id || undefined,
+    title: page.meta.title,
+    workspace: page.meta.workspace_slug,
+    against,
+    additions,
+    deletions,
+    hunks,
+  };
+}
+
+/**
+ * Diff local pages against their last-synced base. Pages without a base
+ * (new pages) are diffed against an empty file.
+ */
+function diffAgainstBase(pages: LocalPage[], explicit: boolean): PageDiff[] {
+  const diffs: PageDiff[] = [];
+
+  for (const page of pages) {
+    const state = getPageSyncState(page);
+    if (state === "synced" && !explicit) continue;
+
+    if (state === "new") {
+      diffs.push(buildDiff(page, "base", ""));
+      continue;
+    }
+
+    const base = readBaseContent(page.meta.id, page.meta.local_hash);
+    if (base === null) {
+      console.error(
+        chalk.yellow(`No base version for ${relative(getConfig().pagesDir, page.path)}. Use --remote to compare with LumifyHub.`)
+      );
+      continue;
+    }
+
+    diffs.push(buildDiff(page, "base", toLocalContent(base.trim(), page.path)));
+  }
+
+  return diffs;
+}
+
+/**
+ * Diff local pages against the live copies on LumifyHub. Without an explicit
+ * page, only pages changed on either side are fetched.
+ */
+async function diffAgainstRemote(pages: LocalPage[], explicit: boolean): Promise<PageDiff[]> {
+  let candidates = pages.filter((page) => page.meta.id);
+
+  if (!explicit) {
+    let remoteHashes: Record<string, PageHash> | null = null;
+    try {
+      remoteHashes = await api.getPageHashes();
+    } catch (error) {
+      // Older servers: compare every page
+      if (!(error instanceof EndpointNotSupportedError)) throw error;
+    }
+    candidates = candidates.filter(
+      (page) =>
+        !remoteHashes ||
+        remoteHashes[page.meta.id]?.hash !== page.meta.remote_hash ||
+        getPageSyncState(page) !== "synced"
+    );
+  }
+
+  const diffs = await mapWithConcurrency(candidates, FETCH_CONCURRENCY, async (page) => {
+    const remote = await api.getPage(page.meta.id);
+    return buildDiff(page, "remote", toLocalContent(remote.content.trim(), page.path));
+  });
+
+  return diffs.filter((diff) => explicit || diff.hunks.length > 0);
+}
+
+function printDiff(diff: PageDiff): void {
+  const oldLabel = diff.against === "remote" ? "remote" : "a";
+  const newLabel = diff.against === "remote" ? "local" : "b";
+  const isNew = !diff.id;
+
+  console.log(chalk.bold(`--- ${isNew ? "/dev/null" : `${oldLabel}/${diff.path}`}`));
+  console.log(chalk.bold(`+++ ${newLabel}/${diff.path}`));
+
+  for (const hunk of diff.hunks) {
+    console.log(chalk.cyan(`@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`));
+    for (const line of hunk.lines) {
+      if (line.startsWith("+")) console.log(chalk.green(line));
+      else if (line.startsWith("-")) console.log(chalk.red(line));
+      else console.log(line);
+    }
+  }
+}
+
+function printStat(diffs: PageDiff[]): void {
+  const width = Math.max(...diffs.map((diff) => diff.path.length));
+  let additions = 0;
+  let deletions = 0;
+
+  for (const diff of diffs) {
+    additions += diff.additions;
+    deletions += diff.deletions;
+    const bar = chalk.green("+".repeat(Math.min(diff.additions, 40))) + chalk.red("-".repeat(Math.min(diff.deletions, 40)));
+    console.log(` ${diff.path.padEnd(width)} | ${String(diff.additions + diff.deletions).padStart(4)} ${bar}`);
+  }
+
+  console.log(
+    ` ${diffs.length} page(s) changed, ${additions} insertion(s)(+), ${deletions} deletion(s)(-)`
+  );
+}
+
+export async function diffCommand(target: string | undefined, options: DiffOptions): Promise<void> {
+  if (!isAuthenticated()) {
+    console.log(chalk.red("Not logged in. Run 'lh login' first."));
+    return;
+  }
+
+  let pages: LocalPage[];
+  if (target) {
+    let page: LocalPage | null;
+    try {
+      page = findLocalPage(target);
+    } catch (error) {
+      console.log(chalk.red(error instanceof Error ? error.message : "Unknown error"));
+      return;
+    }
+    if (!page) {
+      console.log(chalk.red(`Page not found: ${target}`));
+      return;
+    }
+    if (options.remote && !page.meta.id) {
+      console.log(chalk.yellow("This page hasn't been pushed yet, so there is no remote copy to compare with."));
+      return;
+    }
+    pages = [page];
+  } else {
+    pages = getAllLocalPages();
+  }
+
+  let diffs: PageDiff[];
+  if (options.remote) {
+    const spinner = options.json ? null : ora("Fetching pages from LumifyHub...").start();
+    try {
+      diffs = await diffAgainstRemote(pages, Boolean(target));
+      spinner?.stop();
+    } catch (error) {
+      spinner?.fail("Failed to fetch pages");
+      console.error(chalk.red(error instanceof Error ? error.message : "Unknown error"));
+      return;
+    }
+  } else {
+    diffs = diffAgainstBase(pages, Boolean(target));
+  }
+
+  if (options.json) {
+    const output = options.stat ? diffs.map(({ hunks: _hunks, ...summary }) => summary) : diffs;
+    console.log(JSON.stringify(output, null, 2));
+    return;
+  }
+
+  if (diffs.every((diff) => diff.hunks.length === 0)) {
+    console.log(chalk.green(options.remote ? "Local pages match LumifyHub." : "No local changes."));
+    return;
+  }
+
+  const changed = diffs.filter((diff) => diff.hunks.length > 0);
+  if (options.stat) {
+    printStat(changed);
+    return;
+  }
+
+  for (const diff of changed) {
+    printDiff(diff);
+  }
+}
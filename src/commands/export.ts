@@ -0,0 +1,31 @@
+import chalk from "chalk";
+import ora from "ora";
+import { resolve } from "path";
+import { exportWorkspaceHtml } from "../lib/html-export.js";
+
+interface ExportHtmlOptions {
+  workspace: string;
+  output: string;
+}
+
+/**
+ * Render a workspace's local pages and databases as a static site. Works
+ * entirely from the local mirror.
+ */
+export async function exportHtmlCommand(options: ExportHtmlOptions): Promise<void> {
+  const outDir = resolve(options.output);
+  const spinner = ora(`Exporting ${options.workspace}...`).start();
+
+  try {
+    const result = exportWorkspaceHtml(options.workspace, outDir);
+    spinner.succeed(`Exported ${options.workspace} to ${outDir}`);
+
+    console.log(chalk.green(`  Pages: ${result.pages}`));
+    if (result.databases > 0) console.log(chalk.green(`  Databases: ${result.databases}`));
+    if (result.assets > 0) console.log(chalk.green(`  Assets: ${result.assets}`));
+    console.log(chalk.gray(`  Open ${resolve(outDir, "index.html")} in a browser`));
+  } catch (error) {
+    spinner.fail("Failed to export");
+    console.error(chalk.red(error instanceof Error ? error.message : "Unknown error"));
+  }
+}
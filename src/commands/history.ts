@@ -0,0 +1,325 @@
+import chalk from "chalk";
+import { join, relative, sep } from "path";
+import { getConfig, isAuthenticated } from "../lib/config.js";
+import {
+  findLocalPage,
+  getAllLocalPages,
+  getPageSyncState,
+  hashContent,
+  readBaseContent,
+  saveBaseContent,
+  writeLocalPage,
+  type LocalPage,
+} from "../lib/files.js";
+import {
+  getCommitChanges,
+  getCommitOperation,
+  getFileHistory,
+  getLastSyncCommit,
+  getUncommittedPaths,
+  hasHistory,
+  isAncestor,
+  readFileAtRevision,
+  resolveRevision,
+  revertCommit,
+  type FileChange,
+  type Revision,
+} from "../lib/git.js";
+import { toRemoteContent } from "../lib/content.js";
+import { parseFrontmatter } from "../lib/markdown.js";
+import { forgetSyncedPage, getSyncedPages, isSidecarMode, recordSyncedPage } from "../lib/sync-state.js";
+import { withSyncLock } from "../lib/lock.js";
+import type { PageMeta } from "../types/index.js";
+
+interface RestoreOptions {
+  at: string;
+}
+
+function formatDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+function toRelativePath(pagePath: string): string {
+  return relative(getConfig().pagesDir, pagePath).split(sep).join("/");
+}
+
+/**
+ * Resolve a page argument, printing why when it can't be used
+ */
+function resolvePage(ref: string): LocalPage | null {
+  if (!hasHistory()) {
+    console.log(chalk.yellow("No history yet. Pages are committed to local git on every pull and push."));
+    return null;
+  }
+
+  try {
+    const page = findLocalPage(ref);
+    if (!page) console.log(chalk.red(`Page not found: ${ref}`));
+    return page;
+  } catch (error) {
+    console.log(chalk.red(error instanceof Error ? error.message : "Unknown error"));
+    return null;
+  }
+}
+
+/**
+ * Pick the version of a page to restore: a revision (hash, HEAD~2, ...)
+ * selects the newest version at or before that commit, a date the newest
+ * version committed on or before it.
+ */
+function findRevision(history: Revision[], at: string): Revision | undefined {
+  const hash = resolveRevision(at);
+  if (hash) {
+    return history.find((revision) => revision.hash === hash || isAncestor(revision.hash, hash));
+  }
+
+  // A bare date means "as of the end of that day"
+  const target = /^\d{4}-\d{2}-\d{2}$/.test(at) ? new Date(`${at}T23:59:59`) : new Date(at);
+  if (isNaN(target.getTime())) return undefined;
+
+  return history.find((revision) => revision.date <= target);
+}
+
+function readPageAtRevision(hash: string, relativePath: string): { meta: PageMeta; content: string } | null {
+  const file = readFileAtRevision(hash, relativePath);
+  if (file === null) return null;
+
+  const { data, content } = parseFrontmatter(file);
+  return { meta: data as PageMeta, content: content.trim() };
+}
+
+export async function historyCommand(pageRef: string): Promise<void> {
+  if (!isAuthenticated()) {
+    console.log(chalk.red("Not logged in. Run 'lh login' first."));
+    return;
+  }
+
+  const page = resolvePage(pageRef);
+  if (!page) return;
+
+  const relativePath = toRelativePath(page.path);
+  const history = getFileHistory(relativePath);
+
+  if (history.length === 0) {
+    console.log(chalk.yellow(`No history for ${relativePath} yet.`));
+    return;
+  }
+
+  console.log(chalk.blue(`\nHistory of ${relativePath}:\n`));
+
+  const committed = readPageAtRevision(history[0].hash, history[0].path);
+  if (committed && committed.content !== page.content) {
+    console.log(chalk.yellow(`  ${"working".padEnd(8)} ${"".padEnd(16)}  Uncommitted local changes`));
+  }
+
+  for (const revision of history) {
+    const moved = revision.path !== relativePath ? chalk.gray(` (${revision.path})`) : "";
+    console.log(
+      `  ${chalk.cyan(revision.hash.slice(0, 8))} ${chalk.gray(formatDate(revision.date))}  ${revision.operation}${moved}`
+    );
+  }
+
+  console.log(chalk.gray(`\nRestore a version with: lh restore ${pageRef} --at <rev|date>`));
+}
+
+export async function restoreCommand(pageRef: string, options: RestoreOptions): Promise<void> {
+  if (!isAuthenticated()) {
+    console.log(chalk.red("Not logged in. Run 'lh login' first."));
+    return;
+  }
+
+  const page = resolvePage(pageRef);
+  if (!page) return;
+
+  const relativePath = toRelativePath(page.path);
+  const revision = findRevision(getFileHistory(relativePath), options.at);
+  if (!revision) {
+    console.log(chalk.red(`No version of ${relativePath} found at ${options.at}`));
+    console.log(chalk.gray(`Run 'lh history ${pageRef}' to see available versions.`));
+    return;
+  }
+
+  const old = readPageAtRevision(revision.hash, revision.path);
+  if (!old) {
+    console.log(chalk.red(`Could not read ${revision.path} at ${revision.hash.slice(0, 8)}`));
+    return;
+  }
+
+  if (old.content === page.content) {
+    console.log(chalk.gray("The working copy already matches that version."));
+    return;
+  }
+
+  // Keep the current sync metadata so push sees this as a local edit
+  writeLocalPage(page.path, page.meta, old.content);
+
+  console.log(
+    chalk.green(
+      `Restored ${relativePath} to ${revision.hash.slice(0, 8)} (${formatDate(revision.date)}, ${revision.operation})`
+    )
+  );
+  console.log(chalk.gray("Run 'lh push' to publish it."));
+}
+
+/**
+ * In sidecar mode the sync metadata isn't versioned, so reverting a pull
+ * leaves it describing the pulled pages. Describe the restored content
+ * instead: as synced with an unknown remote version, so the next pull
+ * fetches the page again - or, for pages with unpushed edits snapshotted
+ * before the pull, as local changes on top of the merge base the revert
+ * restored.
+ */
+function restoreSidecarMeta(page: LocalPage, editedBeforePull: Set<string>): void {
+  let localHash = hashContent(toRemoteContent(page.content, page.path));
+  if (editedBeforePull.has(toRelativePath(page.path))) {
+    const base = readBaseContent(page.meta.id);
+    localHash = base === null ? "" : hashContent(base);
+  }
+  page.meta = { ...page.meta, local_hash: localHash, remote_hash: "", updated_at: "" };
+  delete page.meta.conflict;
+}
+
+/**
+ * Bring the sync-state index in line with the files after reverting a pull,
+ * for every page the pull touched
+ */
+function reconcileRevertedPages(hash: string, changes: FileChange[]): void {
+  const editedBeforePull = new Set(
+    getCommitOperation(`${hash}^`) === "Local edits before pull"
+      ? getCommitChanges(`${hash}^`).map((change) => change.path)
+      : []
+  );
+
+  const ids = new Set<string>();
+  for (const change of changes) {
+    const before = readPageAtRevision(`${hash}^`, change.from ?? change.path);
+    const after = readPageAtRevision(hash, change.path);
+    if (before?.meta.id) ids.add(before.meta.id);
+    if (after?.meta.id) ids.add(after.meta.id);
+  }
+
+  const localById = new Map(
+    getAllLocalPages()
+      .filter((page) => page.meta.id)
+      .map((page) => [page.meta.id, page])
+  );
+
+  for (const id of ids) {
+    const page = localById.get(id);
+    if (!page) {
+      forgetSyncedPage(id);
+      continue;
+    }
+
+    if (isSidecarMode()) restoreSidecarMeta(page, editedBeforePull);
+    recordSyncedPage(id, page.path, page.meta);
+    // Restored pages are the synced copies of the time, so they are the base
+    if (getPageSyncState(page) === "synced") {
+      saveBaseContent(id, toRemoteContent(page.content, page.path));
+    }
+  }
+}
+
+function undoPull(hash: string, changes: FileChange[]): void {
+  const touched = new Set(changes.flatMap((change) => (change.from ? [change.path, change.from] : [change.path])));
+  const edited = getUncommittedPaths().filter((path) => touched.has(path));
+  if (edited.length > 0) {
+    console.log(chalk.red("These pages have local changes that undoing the pull would overwrite:"));
+    for (const path of edited) console.log(chalk.gray(`  ${path}`));
+    console.log(chalk.gray("Push them or restore them first."));
+    return;
+  }
+
+  if (!revertCommit(hash)) {
+    console.log(chalk.red("Could not revert the pull. Resolve it manually with git in the pages directory."));
+    return;
+  }
+
+  reconcileRevertedPages(hash, changes);
+
+  console.log(chalk.green(`Undid the pull: ${changes.length} file(s) restored to their earlier version.`));
+  console.log(chalk.gray("The next 'lh pull' will fetch these changes again."));
+}
+
+function undoPush(hash: string, changes: FileChange[]): void {
+  const { pagesDir } = getConfig();
+  const synced = getSyncedPages();
+  let restored = 0;
+  const created: string[] = [];
+  const removed: string[] = [];
+
+  for (const change of changes) {
+    if (change.status === "A") {
+      created.push(change.path);
+      continue;
+    }
+    if (change.status === "D") {
+      removed.push(change.path);
+      continue;
+    }
+
+    const before = readPageAtRevision(`${hash}^`, change.from ?? change.path);
+    if (!before?.meta.id) continue;
+
+    const entry = synced[before.meta.id];
+    const current = findLocalPage(join(pagesDir, entry?.path ?? change.path));
+    if (!current || current.content === before.content) continue;
+
+    // Put the pre-push text back as a local edit, keeping today's metadata
+    writeLocalPage(current.path, current.meta, before.content);
+    restored++;
+  }
+
+  if (restored > 0) {
+    console.log(chalk.green(`Restored ${restored} page(s) to their content before the push.`));
+    console.log(chalk.gray("Run 'lh push' to publish the previous versions."));
+  } else {
+    console.log(chalk.gray("No page content to restore."));
+  }
+
+  if (created.length > 0) {
+    console.log(chalk.yellow("\nThese pages were created by the push. Delete the files and run 'lh push' to remove them:"));
+    for (const path of created) console.log(chalk.gray(`  ${path}`));
+  }
+  if (removed.length > 0) {
+    console.log(chalk.yellow("\nThese pages were archived or deleted on LumifyHub and must be restored there:"));
+    for (const path of removed) console.log(chalk.gray(`  ${path}`));
+  }
+}
+
+export async function undoCommand(): Promise<void> {
+  if (!isAuthenticated()) {
+    console.log(chalk.red("Not logged in. Run 'lh login' first."));
+    return;
+  }
+
+  if (!hasHistory()) {
+    console.log(chalk.yellow("Nothing to undo."));
+    return;
+  }
+
+  const commit = getLastSyncCommit();
+  if (!commit) {
+    console.log(chalk.yellow("Nothing to undo: no pull or push in the history."));
+    return;
+  }
+
+  // Merge bases under .lumifyhub/ are restored along with the pages
+  const changes = getCommitChanges(commit.hash).filter(
+    (change) => change.path.endsWith(".md") && !change.path.startsWith(".lumifyhub/")
+  );
+  console.log(chalk.blue(`Undoing: ${commit.subject}`));
+
+  try {
+    await withSyncLock(async () => {
+      if (commit.kind === "pull") {
+        undoPull(commit.hash, changes);
+      } else {
+        undoPush(commit.hash, changes);
+      }
+    });
+  } catch (error) {
+    console.error(chalk.red(error instanceof Error ? error.message : "Unknown error"));
+  }
+}
@@ -0,0 +1,194 @@
+import chalk from "chalk";
+import ora from "ora";
+import { existsSync, statSync } from "fs";
+import { basename } from "path";
+import { isAuthenticated } from "../lib/config.js";
+import { api } from "../lib/api.js";
+import { indexRemotePages, savePage } from "../lib/files.js";
+import {
+  clearImportState,
+  convertContent,
+  IMPORT_FORMATS,
+  loadImportState,
+  planImport,
+  saveImportState,
+  type ImportFormat,
+  type ImportPlan,
+} from "../lib/importer.js";
+import { initGitIfNeeded, commitChanges } from "../lib/git.js";
+import { withSyncLock } from "../lib/lock.js";
+import { pullDatabases } from "./db/index.js";
+import type { Page } from "../types/index.js";
+
+interface ImportOptions {
+  workspace: string;
+  format: string;
+  dryRun?: boolean;
+}
+
+// Rows sent per batch request
+const ROW_BATCH_SIZE = 100;
+
+function printPlan(plan: ImportPlan, workspace: string): void {
+  console.log(
+    chalk.blue(
+      `\nWould import ${plan.pages.length} page(s) and ${plan.databases.length} database(s) into ${workspace}:\n`
+    )
+  );
+
+  const printChildren = (parentKey: string | undefined, depth: number) => {
+    for (const page of plan.pages.filter((p) => p.parentKey === parentKey)) {
+      const note = page.source ? "" : chalk.gray(" (folder)");
+      console.log(`${"  ".repeat(depth + 1)}${page.title}${note}`);
+      printChildren(page.key, depth + 1);
+    }
+  };
+  printChildren(undefined, 0);
+
+  for (const db of plan.databases) {
+    console.log(`  ${db.title}` + chalk.gray(` (database, ${db.rows.length} rows, ${Math.max(db.columns.length - 1, 0)} properties)`));
+  }
+  console.log("");
+}
+
+export async function importCommand(dir: string, options: ImportOptions): Promise<void> {
+  if (!isAuthenticated()) {
+    console.log(chalk.red("Not logged in. Run 'lh login' first."));
+    return;
+  }
+
+  if (!IMPORT_FORMATS.includes(options.format as ImportFormat)) {
+    console.log(chalk.red(`Unknown format: ${options.format}. Use one of: ${IMPORT_FORMATS.join(", ")}`));
+    return;
+  }
+  const format = options.format as ImportFormat;
+
+  if (!existsSync(dir) || !statSync(dir).isDirectory()) {
+    console.log(chalk.red(`Directory not found: ${dir}`));
+    return;
+  }
+
+  const plan = planImport(dir, format);
+  if (plan.pages.length === 0 && plan.databases.length === 0) {
+    console.log(chalk.yellow(`Nothing to import in ${dir}`));
+    return;
+  }
+
+  if (options.dryRun) {
+    printPlan(plan, options.workspace);
+    return;
+  }
+
+  const workspace = options.workspace;
+  const state = loadImportState(dir, workspace, format);
+  const alreadyCreated = plan.pages.filter((page) => state.pages[page.key]).length;
+  if (alreadyCreated > 0 || Object.keys(state.databases).length > 0) {
+    console.log(chalk.gray(`Resuming an interrupted import (${alreadyCreated}/${plan.pages.length} pages created)`));
+  }
+
+  const spinner = ora(`Importing ${dir}...`).start();
+
+  try {
+    await withSyncLock(async () => {
+      const workspaces = await api.getWorkspaces();
+      if (!workspaces.some((ws) => ws.slug === workspace)) {
+        throw new Error(`Workspace not found: ${workspace}`);
+      }
+
+      // Create every page first, parents before children, so content can
+      // link to any of them
+      let step = 0;
+      for (const page of plan.pages) {
+        spinner.text = `Creating pages (${++step}/${plan.pages.length})...`;
+        if (state.pages[page.key]) continue;
+
+        const parentId = page.parentKey ? state.pages[page.parentKey] : undefined;
+        const created = await api.createPage(page.title, "", workspace, parentId);
+        state.pages[page.key] = created.id;
+        saveImportState(state);
+      }
+
+      step = 0;
+      const uploaded: Array<{ key: string; page: Page }> = [];
+      for (const page of plan.pages) {
+        spinner.text = `Uploading content (${++step}/${plan.pages.length}): ${page.title}`;
+        if (state.written.includes(page.key)) continue;
+
+        const content = await convertContent(page, plan, state.pages, workspace);
+        const updated = await api.updatePage(state.pages[page.key], content, page.title);
+        uploaded.push({
+          key: page.key,
+          page: {
+            ...updated,
+            workspace_slug: workspace,
+            parent_id: updated.parent_id ?? (page.parentKey ? state.pages[page.parentKey] : undefined),
+          },
+        });
+      }
+
+      // Save once every page is known locally, so links between them resolve
+      indexRemotePages(uploaded.map(({ page }) => page));
+      for (const { key, page } of uploaded) {
+        savePage(page);
+        state.written.push(key);
+      }
+      saveImportState(state);
+
+      step = 0;
+      for (const db of plan.databases) {
+        spinner.text = `Importing databases (${++step}/${plan.databases.length}): ${db.title}`;
+        let entry = state.databases[db.key];
+        if (!entry) {
+          const [, ...properties] = db.columns;
+          const created = await api.createDatabase(
+            db.title,
+            workspace,
+            properties.map((name) => ({ name, type: "text" }))
+          );
+          entry = state.databases[db.key] = { id: created.id, rowsCreated: 0 };
+          saveImportState(state);
+        }
+
+        const database = await api.getDatabase(entry.id);
+        if (entry.rowsCreated < db.rows.length) {
+          const [titleColumn] = db.columns;
+          const propertyIds = new Map(database.properties.map((prop) => [prop.property_name, prop.property_id]));
+          const rows = db.rows.map((row) => ({
+            title: row[titleColumn] ?? "",
+            data_source_id: database.data_sources[0]?.id ?? null,
+            properties: Object.fromEntries(
+              db.columns
+                .slice(1)
+                .filter((column) => propertyIds.has(column))
+                .map((column) => [propertyIds.get(column)!, row[column] || null])
+            ),
+          }));
+
+          // Record each batch, so a resumed import doesn't create rows twice
+          for (let i = entry.rowsCreated; i < rows.length; i += ROW_BATCH_SIZE) {
+            const batch = rows.slice(i, i + ROW_BATCH_SIZE);
+            await api.batchUpdateRows(entry.id, { create: batch, update: [], delete: [] });
+            entry.rowsCreated = i + batch.length;
+            saveImportState(state);
+          }
+        }
+
+        await pullDatabases({ workspace, force: true, background: true }, database.slug, spinner);
+      }
+
+      clearImportState(state);
+      spinner.succeed(
+        `Imported ${plan.pages.length} page(s) and ${plan.databases.length} database(s) into ${workspace}`
+      );
+
+      initGitIfNeeded();
+      if (commitChanges(`Import ${basename(plan.dir)} into ${workspace}`)) {
+        console.log(chalk.gray("  Committed to local git"));
+      }
+    });
+  } catch (error) {
+    spinner.fail("Import interrupted");
+    console.error(chalk.red(error instanceof Error ? error.message : "Unknown error"));
+    console.log(chalk.gray("  Run the same command again to resume where it stopped"));
+  }
+}
@@ -0,0 +1,62 @@
+import chalk from "chalk";
+import { relative } from "path";
+import { getConfig, isAuthenticated } from "../lib/config.js";
+import { findLocalPage, getAllLocalPages, getOutgoingLinks, type LocalPage } from "../lib/files.js";
+
+export async function linksCommand(pageRef: string): Promise<void> {
+  if (!isAuthenticated()) {
+    console.log(chalk.red("Not logged in. Run 'lh login' first."));
+    return;
+  }
+
+  let page: LocalPage | null;
+  try {
+    page = findLocalPage(pageRef);
+  } catch (error) {
+    console.log(chalk.red(error instanceof Error ? error.message : "Unknown error"));
+    return;
+  }
+  if (!page) {
+    console.log(chalk.red(`Page not found: ${pageRef}`));
+    return;
+  }
+
+  const { pagesDir } = getConfig();
+  const allPages = getAllLocalPages();
+  const byId = new Map(allPages.filter((p) => p.meta.id).map((p) => [p.meta.id, p]));
+  const displayPath = (p: LocalPage) => relative(pagesDir, p.path);
+
+  const outgoing = getOutgoingLinks(page);
+  const resolved = outgoing.filter((link) => link.id !== null);
+  const broken = outgoing.filter((link) => link.id === null);
+
+  const backlinks = page.meta.id
+    ? allPages.filter(
+        (other) =>
+          other.path !== page.path && getOutgoingLinks(other).some((link) => link.id === page.meta.id)
+      )
+    : [];
+
+  console.log(chalk.blue(`\nLinks for ${displayPath(page)}:\n`));
+
+  console.log(chalk.cyan(`  Outgoing (${resolved.length})`));
+  for (const link of resolved) {
+    const target = byId.get(link.id!);
+    const where = target ? displayPath(target) : "not pulled locally";
+    console.log(`    → ${link.text} ${chalk.gray(where)}`);
+  }
+
+  console.log(chalk.cyan(`\n  Backlinks (${backlinks.length})`));
+  for (const other of backlinks) {
+    console.log(`    ← ${other.meta.title || displayPath(other)} ${chalk.gray(displayPath(other))}`);
+  }
+
+  if (broken.length > 0) {
+    console.log(chalk.red(`\n  Broken (${broken.length})`));
+    for (const link of broken) {
+      console.log(chalk.red(`    ✗ ${link.text}`));
+    }
+  }
+
+  console.log("");
+}
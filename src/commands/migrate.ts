@@ -0,0 +1,57 @@
+import chalk from "chalk";
+import { isAuthenticated } from "../lib/config.js";
+import { getAllLocalPages, writeLocalPage } from "../lib/files.js";
+import { getMetadataMode, setMetadataMode, type MetadataMode } from "../lib/sync-state.js";
+import { initGitIfNeeded, commitChanges } from "../lib/git.js";
+import { withSyncLock } from "../lib/lock.js";
+
+const MODES: MetadataMode[] = ["frontmatter", "sidecar"];
+
+/**
+ * Move page sync metadata between frontmatter and the sidecar index in
+ * .lumifyhub/state.json
+ */
+export async function migrateCommand(mode: string): Promise<void> {
+  if (!isAuthenticated()) {
+    console.log(chalk.red("Not logged in. Run 'lh login' first."));
+    return;
+  }
+
+  if (!MODES.includes(mode as MetadataMode)) {
+    console.log(chalk.red(`Unknown mode: ${mode}. Use one of: ${MODES.join(", ")}`));
+    return;
+  }
+  const target = mode as MetadataMode;
+
+  if (getMetadataMode() === target) {
+    console.log(chalk.gray(`Sync metadata is already kept in ${target} mode.`));
+    return;
+  }
+
+  try {
+    const migrated = await withSyncLock(async () => {
+      // Read with the current mode, write with the new one
+      const pages = getAllLocalPages().filter((page) => page.meta.id);
+      setMetadataMode(target);
+      for (const page of pages) {
+        writeLocalPage(page.path, page.meta, page.content);
+      }
+      return pages.length;
+    });
+
+    console.log(
+      chalk.green(
+        target === "sidecar"
+          ? `Moved sync metadata of ${migrated} page(s) into .lumifyhub/state.json`
+          : `Moved sync metadata of ${migrated} page(s) back into frontmatter`
+      )
+    );
+
+    if (migrated > 0 && initGitIfNeeded()) {
+      commitChanges(target === "sidecar" ? "Move sync metadata to sidecar index" : "Move sync metadata to frontmatter");
+      console.log(chalk.gray("  Committed to local git"));
+    }
+  } catch (error) {
+    console.error(chalk.red(error instanceof Error ? error.message : "Unknown error"));
+  }
+}
@@ -1,108 +1,75 @@
 import chalk from "chalk";
 import ora from "ora";
 import { readFileSync, existsSync } from "fs";
-import { isAuthenticated } from "../lib/config.js";
+import { relative } from "path";
+import { getConfig, isAuthenticated } from "../lib/config.js";
 import { api } from "../lib/api.js";
 import { savePage } from "../lib/files.js";
 import { initGitIfNeeded, commitChanges } from "../lib/git.js";
-import { getCliConfig, setCliConfig } from "../lib/cli-config.js";
+import { withDestination } from "../lib/destination.js";
+import { prompt } from "../lib/prompt.js";
+import { readClipboard } from "../lib/clipboard.js";
+import { execCapture, formatExecResult, readStdin, toCodeBlock } from "../lib/capture.js";
+import {
+  findTemplate,
+  getBuiltInVariables,
+  getPlaceholders,
+  renderTemplate,
+  type Template,
+} from "../lib/templates.js";
 
 interface NewOptions {
   workspace?: string;
   content?: string;
   fromFile?: string;
   fromClipboard?: boolean;
+  template?: string;
+  var?: string[];
+  code?: string | boolean;
+  exec?: string;
 }
 
-const CLI_PAGES_TITLE = "CLI Pages";
-const CLI_NOTES_WORKSPACE = "CLI Notes";
-
 /**
- * Get or create the destination for CLI pages.
- * - Single workspace: create "CLI Pages" parent page, nest under it
- * - Multiple workspaces: create "CLI Notes" workspace
+ * Title and content of a page made from a template. Custom placeholders get
+ * their values from --var, or are asked for one by one.
  */
-async function getCliDestination(): Promise<{
-  workspaceSlug: string;
-  parentId?: string;
-}> {
-  const cliConfig = getCliConfig();
-
-  // Check if we have a cached destination
-  if (cliConfig.destinationWorkspace) {
-    return {
-      workspaceSlug: cliConfig.destinationWorkspace,
-      parentId: cliConfig.destinationParentId,
-    };
+async function fillTemplate(
+  template: Template,
+  title: string | undefined,
+  vars: string[]
+): Promise<{ title: string; content: string }> {
+  const values: Record<string, string> = {};
+  for (const entry of vars) {
+    const at = entry.indexOf("=");
+    if (at <= 0) throw new Error(`Invalid --var "${entry}". Use --var name=value`);
+    values[entry.slice(0, at)] = entry.slice(at + 1);
   }
 
-  const workspaces = await api.getWorkspaces();
-
-  if (workspaces.length === 0) {
-    // No workspaces - create CLI Notes workspace
-    const ws = await api.createWorkspace(CLI_NOTES_WORKSPACE);
-    setCliConfig({
-      destinationWorkspace: ws.slug,
-      destinationType: "workspace",
-    });
-    return { workspaceSlug: ws.slug };
+  const titleTemplate = title ?? template.title;
+  if (!titleTemplate) {
+    throw new Error(`Template "${template.name}" has no default title. Pass one: lh new "<title>" --template ${template.name}`);
   }
 
-  if (workspaces.length === 1) {
-    // Single workspace - create CLI Pages parent
-    const ws = workspaces[0];
-
-    // Check if CLI Pages parent already exists
-    const pages = await api.getPages(ws.slug);
-    const cliPagesParent = pages.find((p) => p.title === CLI_PAGES_TITLE);
-
-    if (cliPagesParent) {
-      setCliConfig({
-        destinationWorkspace: ws.slug,
-        destinationParentId: cliPagesParent.id,
-        destinationType: "parent",
-      });
-      return { workspaceSlug: ws.slug, parentId: cliPagesParent.id };
-    }
-
-    // Create CLI Pages parent
-    const parent = await api.createPage(CLI_PAGES_TITLE, "", ws.slug);
-    savePage({ ...parent, workspace_slug: ws.slug });
-
-    setCliConfig({
-      destinationWorkspace: ws.slug,
-      destinationParentId: parent.id,
-      destinationType: "parent",
-    });
-
-    return { workspaceSlug: ws.slug, parentId: parent.id };
-  }
-
-  // Multiple workspaces - create/find CLI Notes workspace
-  const existingCliNotes = workspaces.find(
-    (ws) => ws.name === CLI_NOTES_WORKSPACE || ws.slug === "cli-notes"
+  const builtIns = getBuiltInVariables("");
+  const missing = getPlaceholders(`${titleTemplate}\n${template.content}`).filter(
+    (name) => !(name in builtIns) && !(name in values)
   );
 
-  if (existingCliNotes) {
-    setCliConfig({
-      destinationWorkspace: existingCliNotes.slug,
-      destinationType: "workspace",
-    });
-    return { workspaceSlug: existingCliNotes.slug };
+  if (missing.length > 0 && !process.stdin.isTTY) {
+    throw new Error(`Missing template values: ${missing.join(", ")}. Pass them with --var name=value`);
+  }
+  for (const name of missing) {
+    values[name] = await prompt(`${name}: `);
   }
 
-  // Create CLI Notes workspace
-  const ws = await api.createWorkspace(CLI_NOTES_WORKSPACE);
-  setCliConfig({
-    destinationWorkspace: ws.slug,
-    destinationType: "workspace",
-  });
-
-  return { workspaceSlug: ws.slug };
+  const pageTitle = renderTemplate(titleTemplate, { ...builtIns, ...values });
+  const content = renderTemplate(template.content, { ...getBuiltInVariables(pageTitle), ...values });
+  return { title: pageTitle, content };
 }
 
 export async function newCommand(
-  title: string,
+  titleArg: string | undefined,
+  input: string | undefined,
   options: NewOptions
 ): Promise<void> {
   if (!isAuthenticated()) {
@@ -110,10 +77,57 @@ export async function newCommand(
     return;
   }
 
+  // lh new - reads stdin too, and needs a title from somewhere else
+  if (titleArg === "-" && input === undefined) {
+    titleArg = undefined;
+    input = "-";
+  }
+
+  if (input !== undefined && input !== "-") {
+    console.log(chalk.red(`Unexpected argument: ${input}. Use - to read content from stdin.`));
+    return;
+  }
+  const fromStdin = input === "-";
+
+  if (!titleArg && !options.template && !options.exec) {
+    console.log(chalk.red("Missing page title. Usage: lh new \"<title>\""));
+    return;
+  }
+  let title = titleArg ?? (options.exec ? `$ ${options.exec}` : "");
+
+  const sources = [options.content, options.fromFile, options.fromClipboard, options.template, options.exec, fromStdin];
+  if (sources.filter(Boolean).length > 1) {
+    console.log(chalk.red("Use only one of --content, --from-file, --from-clipboard, --template, --exec and -."));
+    return;
+  }
+
+  if (options.template && options.code) {
+    console.log(chalk.red("--code can't be used with --template."));
+    return;
+  }
+
+  if (fromStdin && process.stdin.isTTY) {
+    console.log(chalk.red("Nothing piped to stdin. Usage: some-command | lh new \"<title>\" -"));
+    return;
+  }
+  const lang = typeof options.code === "string" ? options.code : "";
+
   // Determine content
   let content = "";
 
-  if (options.content) {
+  if (options.template) {
+    try {
+      const template = await findTemplate(options.template);
+      if (!template) {
+        console.log(chalk.red(`Template not found: ${options.template}. Run 'lh templates list' to see what's available.`));
+        return;
+      }
+      ({ title, content } = await fillTemplate(template, titleArg, options.var ?? []));
+    } catch (error) {
+      console.log(chalk.red(error instanceof Error ? error.message : "Unknown error"));
+      return;
+    }
+  } else if (options.content) {
     content = options.content;
   } else if (options.fromFile) {
     if (!existsSync(options.fromFile)) {
@@ -123,36 +137,53 @@ export async function newCommand(
     content = readFileSync(options.fromFile, "utf-8");
   } else if (options.fromClipboard) {
     try {
-      const { execSync } = await import("child_process");
-      content = execSync("pbpaste", { encoding: "utf-8" });
-    } catch {
-      console.log(chalk.red("Failed to read from clipboard"));
+      content = readClipboard();
+    } catch (error) {
+      console.log(chalk.red(`Failed to read from clipboard: ${error instanceof Error ? error.message : "Unknown error"}`));
       return;
     }
+  } else if (fromStdin) {
+    content = await readStdin();
+  } else if (options.exec) {
+    const spinner = ora(`Running ${options.exec}...`).start();
+    try {
+      const result = await execCapture(options.exec);
+      spinner.stop();
+      content = formatExecResult(options.exec, result, lang);
+    } catch (error) {
+      spinner.fail(`Failed to run ${options.exec}`);
+      console.error(chalk.red(error instanceof Error ? error.message : "Unknown error"));
+      return;
+    }
+  }
+
+  if (options.code && !options.exec && content.trim()) {
+    content = toCodeBlock(content, lang);
   }
 
   const spinner = ora("Creating page...").start();
 
   try {
-    let workspaceSlug: string;
-    let parentId: string | undefined;
-
-    if (options.workspace) {
-      // Explicit workspace specified
-      workspaceSlug = options.workspace;
-    } else {
-      // Smart destination
-      const dest = await getCliDestination();
-      workspaceSlug = dest.workspaceSlug;
-      parentId = dest.parentId;
-    }
+    const create = async (workspaceSlug: string, parentId?: string) => ({
+      page: await api.createPage(title, content, workspaceSlug, parentId),
+      workspaceSlug,
+      parentId,
+    });
 
-    const page = await api.createPage(title, content, workspaceSlug, parentId);
-    savePage({ ...page, workspace_slug: workspaceSlug });
+    // An explicit workspace, or the configured destination (see lh dest)
+    const { page, workspaceSlug, parentId } = options.workspace
+      ? await create(options.workspace)
+      : await withDestination((dest) => create(dest.workspaceSlug, dest.parentId));
+
+    const pagePath = savePage({
+      ...page,
+      workspace_slug: workspaceSlug,
+      parent_id: page.parent_id ?? parentId,
+    });
 
     spinner.succeed(`Created: ${chalk.cyan(title)}`);
     console.log(chalk.gray(`  Workspace: ${workspaceSlug}`));
-    console.log(chalk.gray(`  Path: ${workspaceSlug}/${page.slug}.md`));
+    console.log(chalk.gray(`  Path: ${relative(getConfig().pagesDir, pagePath)}`));
 
     // Auto-commit if git available
     initGitIfNeeded();
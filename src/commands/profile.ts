@@ -0,0 +1,101 @@
+import chalk from "chalk";
+import { resolve } from "path";
+import {
+  addProfile,
+  DEFAULT_PROFILE,
+  getActiveProfile,
+  getProfileConfig,
+  isValidProfileName,
+  listProfiles,
+  profileExists,
+  removeProfile,
+  setActiveProfile,
+} from "../lib/config.js";
+import { clearCliState } from "../lib/cli-config.js";
+
+interface ProfileAddOptions {
+  apiUrl?: string;
+  pagesDir?: string;
+  databasesDir?: string;
+  use?: boolean;
+}
+
+export async function profileAddCommand(name: string, options: ProfileAddOptions): Promise<void> {
+  if (!isValidProfileName(name)) {
+    console.log(chalk.red(`Invalid profile name: ${name}. Use letters, numbers, - and _.`));
+    return;
+  }
+  if (profileExists(name)) {
+    console.log(chalk.red(`Profile ${name} already exists.`));
+    return;
+  }
+
+  const config = addProfile(name, {
+    ...(options.apiUrl && { apiUrl: options.apiUrl }),
+    ...(options.pagesDir && { pagesDir: resolve(options.pagesDir) }),
+    ...(options.databasesDir && { databasesDir: resolve(options.databasesDir) }),
+  });
+
+  console.log(chalk.green(`Added profile ${name}`));
+  console.log(chalk.gray(`  API:       ${config.apiUrl}`));
+  console.log(chalk.gray(`  Pages:     ${config.pagesDir}`));
+  console.log(chalk.gray(`  Databases: ${config.databasesDir}`));
+
+  if (options.use) {
+    setActiveProfile(name);
+    console.log(chalk.green(`Switched to ${name}`));
+    console.log(chalk.gray("  Log in with: lh login"));
+  } else {
+    console.log(chalk.gray(`  Log in with: lh --profile ${name} login`));
+  }
+}
+
+export async function profileUseCommand(name: string): Promise<void> {
+  if (!profileExists(name)) {
+    console.log(chalk.red(`Profile not found: ${name}. Run 'lh profile list' to see yours.`));
+    return;
+  }
+
+  setActiveProfile(name);
+  const config = getProfileConfig(name);
+  console.log(chalk.green(`Switched to ${name}`) + chalk.gray(config.email ? ` (${config.email})` : " (not logged in)"));
+
+  if (process.env.LUMIFYHUB_PROFILE && process.env.LUMIFYHUB_PROFILE !== name) {
+    console.log(chalk.yellow(`  LUMIFYHUB_PROFILE is set to ${process.env.LUMIFYHUB_PROFILE} and takes precedence in this shell`));
+  }
+}
+
+export async function profileListCommand(): Promise<void> {
+  const active = getActiveProfile();
+
+  console.log(chalk.blue("\nProfiles:\n"));
+  for (const name of listProfiles()) {
+    const config = getProfileConfig(name);
+    const marker = name === active ? chalk.green("*") : " ";
+    const account = config.email ? chalk.green(config.email) : chalk.gray("not logged in");
+    console.log(`${marker} ${chalk.cyan(name)}  ${account}`);
+    console.log(chalk.gray(`    ${config.apiUrl}  ${config.pagesDir}`));
+  }
+  console.log("");
+}
+
+export async function profileRemoveCommand(name: string): Promise<void> {
+  if (name === DEFAULT_PROFILE) {
+    console.log(chalk.red("The default profile can't be removed."));
+    return;
+  }
+  if (!profileExists(name)) {
+    console.log(chalk.red(`Profile not found: ${name}`));
+    return;
+  }
+
+  const { pagesDir } = getProfileConfig(name);
+  const wasActive = removeProfile(name);
+  clearCliState(name);
+
+  console.log(chalk.green(`Removed profile ${name}`));
+  console.log(chalk.gray(`  Its pages are still in ${pagesDir}`));
+  if (wasActive) {
+    console.log(chalk.gray(`  Switched to ${DEFAULT_PROFILE}`));
+  }
+}
@@ -1,81 +1,325 @@
 import chalk from "chalk";
-import ora from "ora";
+import ora, { type Ora } from "ora";
 import { isAuthenticated } from "../lib/config.js";
-import { api } from "../lib/api.js";
-import { savePage, readLocalPage, getPagePath, hashContent } from "../lib/files.js";
+import { api, EndpointNotSupportedError } from "../lib/api.js";
+import {
+  savePage,
+  saveMergedPage,
+  readLocalPage,
+  readBaseContent,
+  getAllLocalPages,
+  getLocalPagePath,
+  getPageSyncState,
+  indexRemotePages,
+  normalizePageUrls,
+  trashPage,
+} from "../lib/files.js";
+import { mergeThreeWay } from "../lib/merge.js";
+import { toRemoteContent } from "../lib/content.js";
+import { downloadAssets } from "../lib/assets.js";
+import { mapWithConcurrency } from "../lib/concurrency.js";
+import { forgetSyncedPage, getSyncedPages } from "../lib/sync-state.js";
 import { initGitIfNeeded, commitChanges } from "../lib/git.js";
+import { withSyncLock } from "../lib/lock.js";
 import { pullDatabases } from "./db/index.js";
+import type { Page, PageHash } from "../types/index.js";
 
-interface PullOptions {
+export interface PullOptions {
   workspace?: string;
   force?: boolean;
+  // Running unattended (lh watch): no per-page output
+  background?: boolean;
 }
 
-export async function pullCommand(options: PullOptions): Promise<void> {
-  if (!isAuthenticated()) {
-    console.log(chalk.red("Not logged in. Run 'lh login' first."));
-    return;
-  }
+// Parallel page downloads during an incremental pull
+const FETCH_CONCURRENCY = 8;
 
-  const spinner = ora("Pulling from LumifyHub...").start();
+interface RemoteChanges {
+  pages: Page[];
+  remoteIds: Set<string>;
+  remoteHashes: Record<string, PageHash> | null;
+  unchanged: number;
+}
 
+/**
+ * Fetch the pages that changed remotely. Uses the hash endpoint to skip
+ * pages whose remote hash and updated_at match the ones recorded locally,
+ * and falls back to downloading every page when the endpoint isn't available.
+ * Servers that only send content hashes can't report metadata-only changes
+ * such as renames or moves; those are picked up with --force.
+ */
+async function fetchChangedPages(options: PullOptions, spinner: Ora): Promise<RemoteChanges> {
+  let remoteHashes: Record<string, PageHash>;
   try {
-    // Pull pages
-    spinner.text = "Fetching pages...";
+    remoteHashes = await api.getPageHashes(options.workspace);
+  } catch (error) {
+    if (!(error instanceof EndpointNotSupportedError)) throw error;
     const pages = await api.getPages(options.workspace);
+    return { pages, remoteIds: new Set(pages.map((page) => page.id)), remoteHashes: null, unchanged: 0 };
+  }
 
-    let pagesPulled = 0;
-    let pagesSkipped = 0;
-    let pagesConflicts = 0;
+  const localMeta = new Map(
+    getAllLocalPages()
+      .filter((page) => page.meta.id)
+      .map((page) => [page.meta.id, page.meta])
+  );
 
-    for (const page of pages) {
-      const pagePath = getPagePath(page.workspace_slug, page.slug);
-      const local = readLocalPage(pagePath);
+  const changedIds = Object.keys(remoteHashes).filter((id) => {
+    const remote = remoteHashes[id];
+    const local = localMeta.get(id);
+    return (
+      options.force ||
+      local?.remote_hash !== remote.hash ||
+      (remote.updated_at !== undefined && local.updated_at !== remote.updated_at)
+    );
+  });
+  const unchanged = Object.keys(remoteHashes).length - changedIds.length;
 
-      if (local && !options.force) {
-        const localContentHash = hashContent(local.content);
-        const isLocalModified = localContentHash !== local.meta.local_hash;
+  let fetched = 0;
+  const pages = await mapWithConcurrency(changedIds, FETCH_CONCURRENCY, async (id) => {
+    const page = await api.getPage(id);
+    fetched++;
+    spinner.text = `Fetching changed pages (${fetched}/${changedIds.length})...`;
+    return page;
+  });
 
-        if (isLocalModified) {
-          pagesConflicts++;
-          console.log(chalk.yellow(`\n  Page Conflict: ${page.workspace_slug}/${page.slug}`));
-          console.log(chalk.gray("    Use --force to overwrite local changes"));
-          continue;
+  const remoteIds = new Set(Object.keys(remoteHashes));
+  if (!options.workspace) {
+    return { pages, remoteIds, remoteHashes, unchanged };
+  }
+
+  // Older servers may ignore the workspace filter on the hash endpoint, so
+  // pages fetched from another workspace count as moved out of this one
+  const filtered = pages.filter((page) => page.workspace_slug === options.workspace);
+  for (const page of pages) {
+    if (page.workspace_slug !== options.workspace) remoteIds.delete(page.id);
+  }
+
+  return { pages: filtered, remoteIds, remoteHashes, unchanged };
+}
+
+/**
+ * Order pages so parents are written before their children, letting each
+ * child land inside its parent's folder.
+ */
+function sortParentsFirst(pages: Page[]): Page[] {
+  const synced = getSyncedPages();
+  const parentOf = new Map<string, string | undefined>();
+  for (const [id, entry] of Object.entries(synced)) parentOf.set(id, entry.parent_id);
+  for (const page of pages) parentOf.set(page.id, page.parent_id ?? undefined);
+
+  const depthOf = (id: string): number => {
+    let depth = 0;
+    const seen = new Set<string>();
+    for (let parent = parentOf.get(id); parent && !seen.has(parent); parent = parentOf.get(parent)) {
+      seen.add(parent);
+      depth++;
+    }
+    return depth;
+  };
+
+  return [...pages].sort((a, b) => depthOf(a.id) - depthOf(b.id));
+}
+
+export interface PagePullResult {
+  pulled: number;
+  merged: number;
+  skipped: number;
+  conflicts: number;
+  trashed: number;
+  deletedModified: number;
+}
+
+/**
+ * Core page pull logic - can be called from pull or from lh watch.
+ * Background runs skip the per-page output.
+ */
+export async function pullPages(options: PullOptions, spinner: Ora): Promise<PagePullResult> {
+  const log = options.background ? () => {} : console.log;
+
+  spinner.text = "Checking for remote changes...";
+  const { pages, remoteIds, remoteHashes, unchanged } = await fetchChangedPages(options, spinner);
+
+  const result: PagePullResult = {
+    pulled: 0,
+    merged: 0,
+    skipped: unchanged,
+    conflicts: 0,
+    trashed: 0,
+    deletedModified: 0,
+  };
+
+  indexRemotePages(pages);
+
+  for (const page of sortParentsFirst(pages)) {
+    // Mirror attachments first so links can point at the local copies
+    await downloadAssets(page.content, page.workspace_slug);
+
+    const pagePath = getLocalPagePath(page);
+    const local = readLocalPage(pagePath);
+    const remoteHash = remoteHashes?.[page.id]?.hash;
+
+    if (local && !options.force) {
+      const localState = getPageSyncState({ path: pagePath, ...local });
+
+      // Remote unchanged since last sync - keep any local edits as they are
+      if (local.meta.updated_at === page.updated_at) {
+        // Record the server's hash so the next pull can skip this page
+        if (localState === "synced" && remoteHash && local.meta.remote_hash !== remoteHash) {
+          savePage(page, remoteHash);
         }
+        result.skipped++;
+        continue;
+      }
 
-        if (local.meta.updated_at === page.updated_at) {
-          pagesSkipped++;
+      if (localState === "conflict") {
+        result.conflicts++;
+        log(chalk.yellow(`\n  Page Conflict: ${page.workspace_slug}/${page.slug}`));
+        log(chalk.gray("    Resolve the existing conflict markers before pulling again"));
+        continue;
+      }
+
+      if (localState === "modified") {
+        const base = readBaseContent(page.id, local.meta.local_hash);
+
+        if (base === null) {
+          result.conflicts++;
+          log(chalk.yellow(`\n  Page Conflict: ${page.workspace_slug}/${page.slug}`));
+          log(chalk.gray("    No base version to merge against. Use --force to overwrite local changes"));
           continue;
         }
+
+        const localContent = toRemoteContent(local.content, pagePath);
+        const merged = mergeThreeWay(base.trim(), localContent, normalizePageUrls(page.content.trim()));
+        saveMergedPage(page, merged.content, merged.conflicts > 0, remoteHash);
+
+        if (merged.conflicts > 0) {
+          result.conflicts++;
+          log(chalk.yellow(`\n  Page Conflict: ${page.workspace_slug}/${page.slug}`));
+          log(
+            chalk.gray(`    ${merged.conflicts} conflicting change(s) marked in the file. Resolve them, then run 'lh push'`)
+          );
+        } else {
+          result.merged++;
+        }
+        continue;
       }
+    }
+
+    savePage(page, remoteHash);
+    result.pulled++;
+  }
+
+  // Pages whose id the server no longer returns were deleted or moved away
+  spinner.text = "Checking for deleted pages...";
+
+  const deletedPages = getAllLocalPages().filter(
+    (page) =>
+      page.meta.id &&
+      !remoteIds.has(page.meta.id) &&
+      (!options.workspace || page.meta.workspace_slug === options.workspace)
+  );
+
+  for (const page of deletedPages) {
+    if (getPageSyncState(page) === "synced" || options.force) {
+      trashPage(page.path);
+      forgetSyncedPage(page.meta.id);
+      result.trashed++;
+    } else {
+      result.deletedModified++;
+      log(chalk.yellow(`\n  Deleted remotely, modified locally: ${page.meta.workspace_slug}/${page.meta.slug}`));
+      log(chalk.gray("    Delete the file to discard it, or remove its id from the frontmatter to push it as a new page"));
+    }
+  }
 
-      savePage(page);
-      pagesPulled++;
+  // Stop tracking pages deleted on both sides, so push doesn't try to
+  // remove them again. Pages with a file left were handled above.
+  const keptIds = new Set(deletedPages.map((page) => page.meta.id));
+  for (const [id, entry] of Object.entries(getSyncedPages())) {
+    if (!remoteIds.has(id) && !keptIds.has(id) && (!options.workspace || entry.workspace_slug === options.workspace)) {
+      forgetSyncedPage(id);
     }
+  }
 
-    // Pull databases
-    spinner.text = "Fetching databases...";
-    const dbResult = await pullDatabases(options, undefined, spinner);
+  return result;
+}
 
-    spinner.succeed("Pull complete");
+/**
+ * Pull individual pages that don't exist locally yet, e.g. hits from
+ * lh search --remote. Returns the paths they were saved to.
+ */
+export async function pullPagesById(ids: string[], spinner: Ora): Promise<string[]> {
+  spinner.text = `Fetching ${ids.length} page(s)...`;
+  const pages = await mapWithConcurrency(ids, FETCH_CONCURRENCY, (id) => api.getPage(id));
 
-    // Summary
-    const totalPulled = pagesPulled + dbResult.pulled;
-    const totalSkipped = pagesSkipped + dbResult.skipped;
-    const totalConflicts = pagesConflicts + dbResult.conflicts;
+  indexRemotePages(pages);
 
-    if (pagesPulled > 0) console.log(chalk.green(`  Pages: ${pagesPulled}`));
-    if (dbResult.pulled > 0) console.log(chalk.green(`  Databases: ${dbResult.pulled}`));
-    if (totalSkipped > 0) console.log(chalk.gray(`  Unchanged: ${totalSkipped}`));
-    if (totalConflicts > 0) console.log(chalk.yellow(`  Conflicts: ${totalConflicts}`));
+  const paths: string[] = [];
+  for (const page of sortParentsFirst(pages)) {
+    await downloadAssets(page.content, page.workspace_slug);
+    paths.push(savePage(page));
+  }
+  return paths;
+}
 
-    // Auto-commit changes if git is available
-    if (totalPulled > 0) {
+/**
+ * Commit message for a pull, noting remote deletions
+ */
+export function getPullCommitMessage(result: PagePullResult): string {
+  return result.trashed > 0
+    ? `Pull from LumifyHub (${result.trashed} deleted remotely)`
+    : "Pull from LumifyHub";
+}
+
+export async function pullCommand(options: PullOptions): Promise<void> {
+  if (!isAuthenticated()) {
+    console.log(chalk.red("Not logged in. Run 'lh login' first."));
+    return;
+  }
+
+  const spinner = ora("Pulling from LumifyHub...").start();
+
+  try {
+    await withSyncLock(async () => {
+      // Snapshot unpushed edits so undoing this pull can't lose them
       initGitIfNeeded();
-      if (commitChanges("Pull from LumifyHub")) {
-        console.log(chalk.gray("  Committed to local git"));
+      commitChanges("Local edits before pull");
+
+      // Pull pages
+      const pageResult = await pullPages(options, spinner);
+
+      // Pull databases
+      spinner.text = "Fetching databases...";
+      const dbResult = await pullDatabases(options, undefined, spinner);
+
+      spinner.succeed("Pull complete");
+
+      // Summary
+      const totalPulled =
+        pageResult.pulled + pageResult.merged + pageResult.conflicts + pageResult.trashed + dbResult.pulled;
+      const totalSkipped = pageResult.skipped + dbResult.skipped;
+      const totalConflicts = pageResult.conflicts + dbResult.conflicts;
+
+      if (pageResult.pulled > 0) console.log(chalk.green(`  Pages: ${pageResult.pulled}`));
+      if (pageResult.merged > 0) console.log(chalk.green(`  Merged: ${pageResult.merged}`));
+      if (dbResult.pulled > 0) console.log(chalk.green(`  Databases: ${dbResult.pulled}`));
+      if (pageResult.trashed > 0) {
+        console.log(chalk.green(`  Deleted remotely: ${pageResult.trashed} (moved to .trash/)`));
       }
-    }
+      if (pageResult.deletedModified > 0) {
+        console.log(chalk.yellow(`  Deleted remotely, modified locally: ${pageResult.deletedModified}`));
+      }
+      if (totalSkipped > 0) console.log(chalk.gray(`  Unchanged: ${totalSkipped}`));
+      if (totalConflicts > 0) console.log(chalk.yellow(`  Conflicts: ${totalConflicts}`));
+
+      // Auto-commit changes if git is available
+      if (totalPulled > 0) {
+        initGitIfNeeded();
+        if (commitChanges(getPullCommitMessage(pageResult))) {
+          console.log(chalk.gray("  Committed to local git"));
+        }
+      }
+    });
   } catch (error) {
     spinner.fail("Failed to pull");
     console.error(chalk.red(error instanceof Error ? error.message : "Unknown error"));
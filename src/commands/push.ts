@@ -1,180 +1,470 @@
 import chalk from "chalk";
-import ora from "ora";
-import { basename, dirname } from "path";
-import { isAuthenticated } from "../lib/config.js";
-import { api } from "../lib/api.js";
-import { getAllLocalPages, hashContent, savePage } from "../lib/files.js";
+import ora, { type Ora } from "ora";
+import { existsSync, unlinkSync } from "fs";
+import { basename } from "path";
+import { getConfig, isAuthenticated } from "../lib/config.js";
+import { api, PageConflictError, PageNotFoundError } from "../lib/api.js";
+import {
+  getAllLocalPages,
+  getPageSyncState,
+  getWorkspaceFromPath,
+  findParentPageId,
+  getExtraFrontmatter,
+  getPageProperties,
+  readLocalPage,
+  retargetPageLinks,
+  savePage,
+  writeLocalPage,
+} from "../lib/files.js";
+import {
+  getSyncedPages,
+  recordSyncedPage,
+  forgetSyncedPage,
+} from "../lib/sync-state.js";
+import { toRemoteContent } from "../lib/content.js";
+import { uploadAssets } from "../lib/assets.js";
+import { prompt } from "../lib/prompt.js";
+import { withSyncLock } from "../lib/lock.js";
 import { initGitIfNeeded, commitChanges } from "../lib/git.js";
 
-interface PushOptions {
+export interface PushOptions {
   workspace?: string;
   force?: boolean;
+  yes?: boolean;
+  // Running unattended (lh watch): no per-page output and no prompts
+  background?: boolean;
 }
 
-export async function pushCommand(options: PushOptions): Promise<void> {
-  if (!isAuthenticated()) {
-    console.log(chalk.red("Not logged in. Run 'lh login' first."));
-    return;
-  }
-
-  const spinner = ora("Checking for local changes...").start();
+export interface PagePushResult {
+  changes: number;
+  updated: number;
+  created: number;
+  moved: number;
+  removed: number;
+  removalAction: RemovalAction;
+  // Moves and removals left for a push that can ask about them
+  unconfirmed: number;
+  conflicts: number;
+  failed: number;
+}
 
-  try {
-    const localPages = getAllLocalPages();
+type LocalPage = ReturnType<typeof getAllLocalPages>[number];
 
-    // Filter by workspace if specified
-    let filteredPages = localPages;
-    if (options.workspace) {
-      filteredPages = localPages.filter(
-        (p) => p.meta.workspace_slug === options.workspace
-      );
-      if (filteredPages.length === 0) {
-        spinner.info(`No pages found for workspace: ${options.workspace}`);
-        return;
-      }
-    }
+type RemovalAction = "archive" | "delete" | "skip";
 
-    // Separate into modified (existing) and new pages
-    const modifiedPages = filteredPages.filter((page) => {
-      // Has an ID means it exists on remote
-      if (!page.meta.id) return false;
-      const currentHash = hashContent(page.content);
-      return currentHash !== page.meta.local_hash;
-    });
+/**
+ * Ask before moving pages on LumifyHub. --yes skips the prompt; without a
+ * terminal to ask on, the moves are left for a later push.
+ */
+async function confirmMoves(count: number, options: PushOptions): Promise<boolean> {
+  if (options.yes) return true;
+  if (options.background) return false;
+  if (!process.stdin.isTTY) {
+    console.log(chalk.gray("    Skipped: run with --yes to move them on LumifyHub"));
+    return false;
+  }
 
-    const newPages = filteredPages.filter((page) => {
-      // No ID or ID is empty means it's a new page
-      return !page.meta.id;
-    });
+  const answer = await prompt(`  Move ${count} page(s) to their new workspace on LumifyHub? (y/n) `);
+  return answer.toLowerCase() === "y";
+}
 
-    const totalChanges = modifiedPages.length + newPages.length;
+/**
+ * Ask what to do with pages whose local file was deleted. --yes archives
+ * them, since archived pages can still be restored on LumifyHub.
+ */
+async function chooseRemovalAction(count: number, options: PushOptions): Promise<RemovalAction> {
+  if (options.yes) return "archive";
+  if (options.background) return "skip";
+  if (!process.stdin.isTTY) {
+    console.log(chalk.gray("    Skipped: run with --yes to archive them on LumifyHub"));
+    return "skip";
+  }
 
-    if (totalChanges === 0) {
-      spinner.info("No local changes to push");
-      return;
-    }
+  const answer = await prompt(
+    `  Remove ${count} page(s) from LumifyHub? [a]rchive / [d]elete / [s]kip `
+  );
+  switch (answer.toLowerCase()) {
+    case "a":
+    case "archive":
+      return "archive";
+    case "d":
+    case "delete":
+      return "delete";
+    default:
+      return "skip";
+  }
+}
 
-    spinner.text = `Pushing ${totalChanges} pages (${modifiedPages.length} modified, ${newPages.length} new)...`;
+/**
+ * Create any workspaces that don't exist on LumifyHub yet
+ */
+async function ensureWorkspaces(slugs: Set<string>): Promise<void> {
+  if (slugs.size === 0) return;
 
-    let pushed = 0;
-    let created = 0;
-    let failed = 0;
+  // Fetch existing workspaces
+  const existingWorkspaces = await api.getWorkspaces();
+  const existingSlugs = new Set(
+    existingWorkspaces.flatMap((ws) => [
+      ws.slug,
+      ws.name.toLowerCase().replace(/\s+/g, "-"),
+    ].filter(Boolean))
+  );
 
-    // Push modified pages
-    for (const page of modifiedPages) {
+  // Create any missing workspaces
+  for (const slug of slugs) {
+    if (!existingSlugs.has(slug)) {
       try {
-        const updatedPage = await api.updatePage(
-          page.meta.id,
-          page.content,
-          page.meta.title
-        );
-
-        // Update local file with new metadata
-        savePage({
-          ...updatedPage,
-          workspace_slug: page.meta.workspace_slug,
-        });
-
-        pushed++;
-        console.log(chalk.green(`  Updated: ${page.meta.workspace_slug}/${page.meta.slug}`));
+        // Convert slug to readable name
+        const workspaceName = slug
+          .split("-")
+          .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+          .join(" ");
+
+        console.log(chalk.blue(`  Creating workspace: ${workspaceName}`));
+        const newWs = await api.createWorkspace(workspaceName);
+        existingSlugs.add(newWs.slug);
       } catch (error) {
-        failed++;
-        console.log(chalk.red(`  Failed: ${page.meta.workspace_slug}/${page.meta.slug}`));
+        console.log(chalk.red(`  Failed to create workspace: ${slug}`));
         console.log(chalk.gray(`    ${error instanceof Error ? error.message : "Unknown error"}`));
       }
     }
+  }
+}
+
+/**
+ * Upload the attachments a page references and return its content with
+ * links in their remote form
+ */
+async function prepareRemoteContent(page: LocalPage): Promise<string> {
+  await uploadAssets(page.content, page.path, page.meta.workspace_slug);
+  return toRemoteContent(page.content, page.path);
+}
+
+/**
+ * Frontmatter values to send as page properties, if any keys are configured
+ */
+function getSyncedProperties(page: LocalPage): Record<string, unknown> | undefined {
+  if (getConfig().propertyKeys.length === 0) return undefined;
+  return getPageProperties(getExtraFrontmatter(page.meta));
+}
+
+/**
+ * Core page push logic - can be called from push or from lh watch
+ */
+export async function pushPages(options: PushOptions, spinner: Ora): Promise<PagePushResult> {
+  const log = options.background ? () => {} : console.log;
+  const result: PagePushResult = {
+    changes: 0,
+    updated: 0,
+    created: 0,
+    moved: 0,
+    removed: 0,
+    removalAction: "skip",
+    unconfirmed: 0,
+    conflicts: 0,
+    failed: 0,
+  };
+
+  const localPages = getAllLocalPages();
+
+  const inWorkspace = (slug: string) => !options.workspace || slug === options.workspace;
 
-    // Create new pages - first check if we need to create any workspaces
-    if (newPages.length > 0) {
-      // Get all unique workspace slugs from new pages
-      const newWorkspaceSlugs = new Set<string>();
-      for (const page of newPages) {
-        const workspaceSlug = page.meta.workspace_slug || basename(dirname(page.path));
-        newWorkspaceSlugs.add(workspaceSlug);
+  // Tracked pages whose file is gone locally
+  const localIds = new Set(localPages.map((page) => page.meta.id).filter(Boolean));
+  const missingPages = Object.entries(getSyncedPages())
+    .filter(([id, entry]) => !localIds.has(id) && inWorkspace(entry.workspace_slug))
+    .map(([id, entry]) => ({ id, ...entry }));
+
+  // Tracked pages whose file was moved into another workspace directory
+  const relocatedPages: LocalPage[] = [];
+  for (const page of localPages) {
+    if (!page.meta.id) continue;
+
+    const targetWorkspace = getWorkspaceFromPath(page.path);
+    if (targetWorkspace !== page.meta.workspace_slug) {
+      if (inWorkspace(targetWorkspace) || inWorkspace(page.meta.workspace_slug)) {
+        relocatedPages.push(page);
       }
+    } else {
+      // Renamed within the workspace - just follow the file
+      recordSyncedPage(page.meta.id, page.path, page.meta);
+    }
+  }
+
+  // Filter by workspace if specified
+  let filteredPages = localPages;
+  if (options.workspace) {
+    filteredPages = localPages.filter(
+      (p) => p.meta.workspace_slug === options.workspace
+    );
+    if (filteredPages.length === 0 && missingPages.length === 0 && relocatedPages.length === 0) {
+      spinner.info(`No pages found for workspace: ${options.workspace}`);
+      return result;
+    }
+  }
+
+  // Never push unresolved merge conflicts
+  const conflictedPages = filteredPages.filter(
+    (page) => getPageSyncState(page) === "conflict"
+  );
 
-      // Fetch existing workspaces
-      const existingWorkspaces = await api.getWorkspaces();
-      const existingSlugs = new Set(
-        existingWorkspaces.flatMap((ws) => [
-          ws.slug,
-          ws.name.toLowerCase().replace(/\s+/g, "-"),
-        ].filter(Boolean))
+  // Separate into modified (existing) and new pages
+  const modifiedPages = filteredPages.filter(
+    (page) => getPageSyncState(page) === "modified"
+  );
+
+  const newPages = filteredPages.filter((page) => {
+    // No ID or ID is empty means it's a new page
+    return !page.meta.id;
+  });
+
+  const totalChanges =
+    modifiedPages.length + newPages.length + missingPages.length + relocatedPages.length;
+
+  result.conflicts = conflictedPages.length;
+  if (conflictedPages.length > 0) {
+    spinner.stop();
+    for (const page of conflictedPages) {
+      log(chalk.red(`  Conflict: ${page.meta.workspace_slug}/${page.meta.slug}`));
+    }
+    log(chalk.gray("    Resolve the conflict markers in these pages to push them"));
+    spinner.start();
+  }
+
+  result.changes = totalChanges;
+
+  if (totalChanges === 0) {
+    if (result.conflicts > 0) spinner.warn(`Nothing pushed: ${result.conflicts} conflicts`);
+    else spinner.info("No local changes to push");
+    return result;
+  }
+
+  // Move relocated pages to the workspace they now live in
+  if (relocatedPages.length > 0) {
+    spinner.stop();
+    for (const page of relocatedPages) {
+      log(
+        chalk.blue(`  Moved: ${page.meta.workspace_slug}/${page.meta.slug} -> ${getWorkspaceFromPath(page.path)}/`)
       );
+    }
+
+    if (await confirmMoves(relocatedPages.length, options)) {
+      await ensureWorkspaces(new Set(relocatedPages.map((page) => getWorkspaceFromPath(page.path))));
+
+      for (const page of relocatedPages) {
+        try {
+          const movedPage = await api.movePage(page.meta.id, getWorkspaceFromPath(page.path));
+
+          // Keep content and hashes; only the location changed
+          page.meta = {
+            ...page.meta,
+            workspace_id: movedPage.workspace_id,
+            workspace_slug: movedPage.workspace_slug,
+            updated_at: movedPage.updated_at,
+          };
+          writeLocalPage(page.path, page.meta, page.content);
+          recordSyncedPage(page.meta.id, page.path, page.meta);
+          result.moved++;
+        } catch (error) {
+          log(chalk.red(`  Failed to move: ${page.meta.workspace_slug}/${page.meta.slug}`));
+          log(chalk.gray(`    ${error instanceof Error ? error.message : "Unknown error"}`));
+        }
+      }
+    } else {
+      result.unconfirmed += relocatedPages.length;
+    }
+    spinner.start();
+  }
+
+  // Archive or delete pages whose local file was removed
+  if (missingPages.length > 0) {
+    spinner.stop();
+    for (const page of missingPages) {
+      log(chalk.red(`  Deleted locally: ${page.path}`));
+    }
 
-      // Create any missing workspaces
-      for (const slug of newWorkspaceSlugs) {
-        if (!existingSlugs.has(slug)) {
-          try {
-            // Convert slug to readable name
-            const workspaceName = slug
-              .split("-")
-              .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
-              .join(" ");
-
-            console.log(chalk.blue(`  Creating workspace: ${workspaceName}`));
-            const newWs = await api.createWorkspace(workspaceName);
-            existingSlugs.add(newWs.slug);
-          } catch (error) {
-            console.log(chalk.red(`  Failed to create workspace: ${slug}`));
-            console.log(chalk.gray(`    ${error instanceof Error ? error.message : "Unknown error"}`));
+    result.removalAction = await chooseRemovalAction(missingPages.length, options);
+    if (result.removalAction === "skip") {
+      result.unconfirmed += missingPages.length;
+    } else {
+      for (const page of missingPages) {
+        try {
+          if (result.removalAction === "delete") {
+            await api.deletePage(page.id);
+          } else {
+            await api.archivePage(page.id);
+          }
+          forgetSyncedPage(page.id);
+          result.removed++;
+        } catch (error) {
+          // Already gone on LumifyHub as well
+          if (error instanceof PageNotFoundError) {
+            forgetSyncedPage(page.id);
+            result.removed++;
+            continue;
           }
+          log(chalk.red(`  Failed to ${result.removalAction}: ${page.path}`));
+          log(chalk.gray(`    ${error instanceof Error ? error.message : "Unknown error"}`));
         }
       }
     }
+    spinner.start();
+  }
 
-    for (const page of newPages) {
-      try {
-        // Extract workspace slug from the file path
-        const workspaceSlug = page.meta.workspace_slug || basename(dirname(page.path));
+  // Content of pages left in the wrong workspace directory waits for the move
+  const pendingMoves = new Set(
+    relocatedPages.filter((page) => getWorkspaceFromPath(page.path) !== page.meta.workspace_slug)
+  );
+
+  spinner.text = `Pushing ${modifiedPages.length + newPages.length} pages (${modifiedPages.length} modified, ${newPages.length} new)...`;
+
+  // Create new pages first, so relative links to them push as page URLs
+  // - first check if we need to create any workspaces
+  await ensureWorkspaces(
+    new Set(newPages.map((page) => page.meta.workspace_slug || getWorkspaceFromPath(page.path)))
+  );
 
-        // Use title from frontmatter or derive from filename
-        const title = page.meta.title || basename(page.path, ".md").replace(/-/g, " ");
+  for (const page of newPages) {
+    try {
+      // Extract workspace slug from the file path
+      const workspaceSlug = page.meta.workspace_slug || getWorkspaceFromPath(page.path);
 
-        const createdPage = await api.createPage(
-          title,
-          page.content,
-          workspaceSlug
-        );
+      // Use title from frontmatter or derive from filename
+      const title = page.meta.title || basename(page.path, ".md").replace(/-/g, " ");
 
-        // Save with the new ID from server
-        savePage({
+      // Files inside a page's folder become children of that page
+      const parentId = page.meta.parent_id || findParentPageId(page.path);
+
+      const createdPage = await api.createPage(
+        title,
+        await prepareRemoteContent({ ...page, meta: { ...page.meta, workspace_slug: workspaceSlug } }),
+        workspaceSlug,
+        parentId,
+        getSyncedProperties(page)
+      );
+
+      // Save with the new ID from server, keeping the user's frontmatter keys
+      const savedPath = savePage(
+        {
           ...createdPage,
           workspace_slug: workspaceSlug,
-        });
+          parent_id: createdPage.parent_id ?? parentId,
+        },
+        undefined,
+        getExtraFrontmatter(page.meta)
+      );
 
-        created++;
-        console.log(chalk.cyan(`  Created: ${workspaceSlug}/${createdPage.slug}`));
-      } catch (error) {
-        failed++;
-        const displayPath = page.meta.workspace_slug
-          ? `${page.meta.workspace_slug}/${page.meta.slug || basename(page.path)}`
-          : page.path;
-        console.log(chalk.red(`  Failed: ${displayPath}`));
-        console.log(chalk.gray(`    ${error instanceof Error ? error.message : "Unknown error"}`));
+      // The server's slug may not match the file name we started from
+      if (savedPath !== page.path && existsSync(page.path)) {
+        unlinkSync(page.path);
+        retargetPageLinks(page.path, savedPath);
       }
-    }
 
-    if (failed === 0) {
-      const parts = [];
-      if (pushed > 0) parts.push(`${pushed} updated`);
-      if (created > 0) parts.push(`${created} created`);
-      spinner.succeed(`Push complete: ${parts.join(", ")}`);
-    } else {
-      const parts = [];
-      if (pushed > 0) parts.push(`${pushed} updated`);
-      if (created > 0) parts.push(`${created} created`);
-      parts.push(`${failed} failed`);
-      spinner.warn(`Push complete: ${parts.join(", ")}`);
+      result.created++;
+      log(chalk.cyan(`  Created: ${workspaceSlug}/${createdPage.slug}`));
+    } catch (error) {
+      result.failed++;
+      const displayPath = page.meta.workspace_slug
+        ? `${page.meta.workspace_slug}/${page.meta.slug || basename(page.path)}`
+        : page.path;
+      log(chalk.red(`  Failed: ${displayPath}`));
+      log(chalk.gray(`    ${error instanceof Error ? error.message : "Unknown error"}`));
     }
+  }
+
+  // Push modified pages
+  for (const page of modifiedPages) {
+    if (pendingMoves.has(page)) continue;
+
+    // Links to pages just created may have been pointed at their new files
+    page.content = readLocalPage(page.path)?.content ?? page.content;
+
+    try {
+      if (!options.force) {
+        // Refuse to overwrite pages that changed remotely since our last pull
+        const remotePage = await api.getPage(page.meta.id);
+        if (remotePage.updated_at !== page.meta.updated_at) {
+          throw new PageConflictError();
+        }
+      }
+
+      const updatedPage = await api.updatePage(
+        page.meta.id,
+        await prepareRemoteContent(page),
+        page.meta.title,
+        options.force ? undefined : page.meta.updated_at,
+        getSyncedProperties(page)
+      );
+
+      // Update local file with new metadata
+      savePage({
+        ...updatedPage,
+        workspace_slug: page.meta.workspace_slug,
+        parent_id: updatedPage.parent_id ?? page.meta.parent_id,
+      });
 
-    // Auto-commit changes if git is available
-    if (pushed > 0 || created > 0) {
-      initGitIfNeeded();
-      if (commitChanges("Push to LumifyHub")) {
-        console.log(chalk.gray("  Committed to local git"));
+      result.updated++;
+      log(chalk.green(`  Updated: ${page.meta.workspace_slug}/${page.meta.slug}`));
+    } catch (error) {
+      if (error instanceof PageConflictError) {
+        result.conflicts++;
+        log(chalk.yellow(`  Conflict: ${page.meta.workspace_slug}/${page.meta.slug}`));
+        log(chalk.gray("    Changed on LumifyHub since last pull. Run 'lh pull' to merge, or use --force to overwrite"));
+        continue;
       }
+
+      result.failed++;
+      log(chalk.red(`  Failed: ${page.meta.workspace_slug}/${page.meta.slug}`));
+      log(chalk.gray(`    ${error instanceof Error ? error.message : "Unknown error"}`));
     }
+  }
+
+  return result;
+}
+
+/**
+ * One-line summary of a page push, e.g. "2 updated, 1 created"
+ */
+export function formatPushSummary(result: PagePushResult): string {
+  const removedLabel = result.removalAction === "delete" ? "deleted" : "archived";
+  const parts = [];
+  if (result.updated > 0) parts.push(`${result.updated} updated`);
+  if (result.created > 0) parts.push(`${result.created} created`);
+  if (result.moved > 0) parts.push(`${result.moved} moved`);
+  if (result.removed > 0) parts.push(`${result.removed} ${removedLabel}`);
+  if (result.conflicts > 0) parts.push(`${result.conflicts} conflicts`);
+  if (result.failed > 0) parts.push(`${result.failed} failed`);
+  return parts.join(", ");
+}
+
+export async function pushCommand(options: PushOptions): Promise<void> {
+  if (!isAuthenticated()) {
+    console.log(chalk.red("Not logged in. Run 'lh login' first."));
+    return;
+  }
+
+  const spinner = ora("Checking for local changes...").start();
+
+  try {
+    await withSyncLock(async () => {
+      const result = await pushPages(options, spinner);
+      if (result.changes === 0) return;
+
+      const summary = formatPushSummary(result);
+      if (result.failed === 0 && result.conflicts === 0) {
+        spinner.succeed(summary ? `Push complete: ${summary}` : "Push complete");
+      } else {
+        spinner.warn(`Push complete: ${summary}`);
+      }
+
+      // Auto-commit changes if git is available
+      if (result.updated > 0 || result.created > 0 || result.moved > 0 || result.removed > 0) {
+        initGitIfNeeded();
+        if (commitChanges("Push to LumifyHub")) {
+          console.log(chalk.gray("  Committed to local git"));
+        }
+      }
+    });
   } catch (error) {
     spinner.fail("Failed to push pages");
     console.error(chalk.red(error instanceof Error ? error.message : "Unknown error"));
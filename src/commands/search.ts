@@ -1,9 +1,164 @@
 import chalk from "chalk";
-import { isAuthenticated } from "../lib/config.js";
-import { searchPages } from "../lib/files.js";
+import ora from "ora";
+import { relative, sep } from "path";
+import { getConfig, isAuthenticated } from "../lib/config.js";
+import { api, EndpointNotSupportedError } from "../lib/api.js";
+import { getAllLocalPages } from "../lib/files.js";
+import {
+  parseQuery,
+  search,
+  tokenize,
+  wordsPattern,
+  type SearchHit,
+  type SearchMode,
+} from "../lib/search-index.js";
+import { searchDatabaseRows, type RowHit } from "../lib/db-search.js";
+import { initGitIfNeeded, commitChanges } from "../lib/git.js";
+import { withSyncLock } from "../lib/lock.js";
+import { pullPagesById } from "./pull.js";
 
 interface SearchOptions {
   workspace?: string;
+  regex?: boolean;
+  fuzzy?: boolean;
+  json?: boolean;
+  limit?: string;
+  pagesOnly?: boolean;
+  dbOnly?: boolean;
+  remote?: boolean;
+  pull?: boolean;
+}
+
+interface RemoteHit extends SearchHit {
+  id: string;
+  // Whether the page is already in the local mirror
+  local: boolean;
+}
+
+const DEFAULT_LIMIT = 20;
+
+// Matching lines shown per page; --json returns all of them
+const SNIPPETS_PER_HIT = 3;
+
+function printHit(hit: SearchHit, location = chalk.gray(hit.path)): void {
+  const updated = hit.updated_at ? chalk.gray(`  ${hit.updated_at.slice(0, 10)}`) : "";
+  console.log(chalk.cyan(`  ${hit.workspace}/${hit.title || hit.path}`) + updated);
+  console.log(`    ${location}`);
+
+  for (const match of hit.matches.slice(0, SNIPPETS_PER_HIT)) {
+    const text = hit.highlight ? match.text.replace(hit.highlight, (word) => chalk.yellow(word)) : match.text;
+    console.log(match.line ? `    ${chalk.gray(`${match.line}:`)} ${text}` : `    ${text}`);
+  }
+  if (hit.matches.length > SNIPPETS_PER_HIT) {
+    console.log(chalk.gray(`    ... ${hit.matches.length - SNIPPETS_PER_HIT} more matching line(s)`));
+  }
+  console.log("");
+}
+
+function printRowHit(hit: RowHit): void {
+  console.log(chalk.cyan(`  ${hit.workspace}/${hit.database}`) + chalk.gray(" › ") + chalk.cyan(hit.rowTitle || hit.rowId));
+  console.log(chalk.gray(`    ${hit.path}/data.csv  row ${hit.rowId}`));
+
+  for (const match of hit.matches.slice(0, SNIPPETS_PER_HIT)) {
+    const value = hit.highlight ? match.value.replace(hit.highlight, (word) => chalk.yellow(word)) : match.value;
+    console.log(`    ${chalk.gray(`${match.property}:`)} ${value}`);
+  }
+  if (hit.matches.length > SNIPPETS_PER_HIT) {
+    console.log(chalk.gray(`    ... ${hit.matches.length - SNIPPETS_PER_HIT} more matching field(s)`));
+  }
+  console.log("");
+}
+
+function roundScore(score: number): number {
+  return Math.round(score * 1000) / 1000;
+}
+
+/**
+ * Search on LumifyHub itself, which also covers workspaces and pages that
+ * were never pulled. Returns false when the server has no search endpoint.
+ */
+async function searchRemote(query: string, options: SearchOptions, limit: number): Promise<boolean> {
+  const spinner = ora("Searching LumifyHub...").start();
+
+  let results;
+  try {
+    results = await api.searchPages(query, options.workspace, limit);
+    spinner.stop();
+  } catch (error) {
+    if (error instanceof EndpointNotSupportedError) {
+      spinner.warn(`${error.message}. Showing local results instead.`);
+      return false;
+    }
+    spinner.fail("Search failed");
+    console.error(chalk.red(error instanceof Error ? error.message : "Unknown error"));
+    return true;
+  }
+
+  const { pagesDir } = getConfig();
+  const localPaths = new Map(
+    getAllLocalPages()
+      .filter((page) => page.meta.id)
+      .map((page) => [page.meta.id, relative(pagesDir, page.path).split(sep).join("/")])
+  );
+  const highlight = wordsPattern(parseQuery(query).terms.flatMap((term) => tokenize(term)));
+
+  const hits: RemoteHit[] = results.map((result) => ({
+    path: localPaths.get(result.id) ?? `${result.workspace_slug}/${result.slug}`,
+    id: result.id,
+    title: result.title,
+    workspace: result.workspace_slug,
+    updated_at: result.updated_at,
+    score: result.score,
+    matches: (result.snippets ?? []).map((text) => ({ text })),
+    highlight,
+    local: localPaths.has(result.id),
+  }));
+
+  if (options.json) {
+    const output = hits.map(({ highlight: _highlight, ...hit }) => ({ type: "page", ...hit, score: roundScore(hit.score) }));
+    console.log(JSON.stringify(output, null, 2));
+  } else if (hits.length === 0) {
+    console.log(chalk.yellow(`No results found on LumifyHub for "${query}"`));
+  } else {
+    console.log(chalk.blue(`\nFound ${hits.length} result(s) on LumifyHub for "${query}":\n`));
+    for (const hit of hits) {
+      printHit(hit, hit.local ? chalk.gray(hit.path) : chalk.yellow("not pulled") + chalk.gray(`  ${hit.id}`));
+    }
+  }
+
+  const missing = hits.filter((hit) => !hit.local);
+  if (options.pull && missing.length > 0) {
+    await pullHits(missing);
+  } else if (missing.length > 0 && !options.json) {
+    console.log(chalk.gray(`Run with --pull to download the ${missing.length} page(s) that aren't local yet.`));
+  }
+  return true;
+}
+
+async function pullHits(hits: RemoteHit[]): Promise<void> {
+  const spinner = ora("Pulling pages from LumifyHub...").start();
+
+  try {
+    await withSyncLock(async () => {
+      initGitIfNeeded();
+      commitChanges("Local edits before pull");
+      const paths = await pullPagesById(hits.map((hit) => hit.id), spinner);
+      spinner.succeed(`Pulled ${paths.length} page(s)`);
+
+      const { pagesDir } = getConfig();
+      for (const path of paths) {
+        console.log(chalk.green(`  ${relative(pagesDir, path)}`));
+      }
+
+      initGitIfNeeded();
+      if (commitChanges("Pull from LumifyHub")) {
+        console.log(chalk.gray("  Committed to local git"));
+      }
+    });
+  } catch (error) {
+    spinner.fail("Failed to pull");
+    console.error(chalk.red(error instanceof Error ? error.message : "Unknown error"));
+  }
 }
 
 export async function searchCommand(
@@ -15,33 +170,76 @@ export async function searchCommand(
     return;
   }
 
-  const results = searchPages(query, options.workspace);
+  if (options.regex && options.fuzzy) {
+    console.log(chalk.red("Use either --regex or --fuzzy, not both."));
+    return;
+  }
 
-  if (results.length === 0) {
-    console.log(chalk.yellow(`No results found for "${query}"`));
+  if (options.pagesOnly && options.dbOnly) {
+    console.log(chalk.red("Use either --pages-only or --db-only, not both."));
     return;
   }
 
-  console.log(chalk.blue(`\nFound ${results.length} result(s) for "${query}":\n`));
+  const limit = options.limit ? parseInt(options.limit, 10) : DEFAULT_LIMIT;
+  if (!(limit > 0)) {
+    console.log(chalk.red("--limit must be a positive number"));
+    return;
+  }
 
-  for (const result of results) {
-    console.log(chalk.cyan(`  ${result.workspace}/${result.title}`));
-    console.log(chalk.gray(`    ${result.path}`));
+  if (options.pull && !options.remote) {
+    console.log(chalk.red("--pull only works together with --remote."));
+    return;
+  }
 
-    if (result.matches.length > 0) {
-      for (const match of result.matches) {
-        // Highlight the query in the match
-        const highlighted = match.replace(
-          new RegExp(`(${escapeRegex(query)})`, "gi"),
-          chalk.yellow("$1")
-        );
-        console.log(chalk.gray(`    ... ${highlighted}`));
-      }
-    }
-    console.log("");
+  if (options.remote && (options.regex || options.fuzzy || options.dbOnly)) {
+    console.log(chalk.red("--regex, --fuzzy and --db-only only work on local search."));
+    return;
   }
-}
 
-function escapeRegex(str: string): string {
-  return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  if (options.remote && (await searchRemote(query, options, limit))) {
+    return;
+  }
+
+  const mode: SearchMode = options.regex ? "regex" : options.fuzzy ? "fuzzy" : "terms";
+
+  const searchOptions = { mode, workspace: options.workspace, limit };
+  let pages: SearchHit[] = [];
+  let rows: RowHit[] = [];
+  try {
+    if (!options.dbOnly) pages = search(query, searchOptions);
+    if (!options.pagesOnly) rows = searchDatabaseRows(query, searchOptions);
+  } catch (error) {
+    console.log(chalk.red(error instanceof Error ? error.message : "Unknown error"));
+    return;
+  }
+
+  if (options.json) {
+    const output = [
+      ...pages.map(({ highlight: _highlight, ...hit }) => ({ type: "page", ...hit, score: roundScore(hit.score) })),
+      ...rows.map(({ highlight: _highlight, ...hit }) => ({ type: "row", ...hit, score: roundScore(hit.score) })),
+    ];
+    console.log(JSON.stringify(output, null, 2));
+    return;
+  }
+
+  if (pages.length === 0 && rows.length === 0) {
+    console.log(chalk.yellow(`No results found for "${query}"`));
+    return;
+  }
+
+  console.log(chalk.blue(`\nFound ${pages.length + rows.length} result(s) for "${query}":\n`));
+
+  if (pages.length > 0 && !options.pagesOnly) {
+    console.log(chalk.bold(`Pages (${pages.length})\n`));
+  }
+  for (const page of pages) {
+    printHit(page);
+  }
+
+  if (rows.length > 0 && !options.dbOnly) {
+    console.log(chalk.bold(`Database rows (${rows.length})\n`));
+  }
+  for (const row of rows) {
+    printRowHit(row);
+  }
 }
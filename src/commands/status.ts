@@ -1,6 +1,7 @@
 import chalk from "chalk";
+import { join, relative } from "path";
 import { isAuthenticated, getConfig } from "../lib/config.js";
-import { getAllLocalPages, hashContent } from "../lib/files.js";
+import { getAllLocalPages, getPageSyncState, getWorkspaceFromPath } from "../lib/files.js";
 
 export async function statusCommand(): Promise<void> {
   if (!isAuthenticated()) {
@@ -23,7 +24,7 @@ export async function statusCommand(): Promise<void> {
   // Group by workspace
   const byWorkspace = new Map<string, typeof localPages>();
   for (const page of localPages) {
-    const workspace = page.meta.workspace_slug;
+    const workspace = getWorkspaceFromPath(page.path);
     if (!byWorkspace.has(workspace)) {
       byWorkspace.set(workspace, []);
     }
@@ -31,28 +32,36 @@ export async function statusCommand(): Promise<void> {
   }
 
   let totalModified = 0;
+  let totalConflicts = 0;
 
   for (const [workspace, pages] of byWorkspace) {
     console.log(chalk.cyan(`  ${workspace}/`));
 
     for (const page of pages) {
-      const currentHash = hashContent(page.content);
-      const isModified = currentHash !== page.meta.local_hash;
+      const state = getPageSyncState(page);
+      const displayPath = relative(join(config.pagesDir, workspace), page.path);
 
-      if (isModified) {
+      if (state === "conflict") {
+        totalConflicts++;
+        console.log(chalk.red(`    C ${displayPath}`));
+      } else if (state !== "synced") {
         totalModified++;
-        console.log(chalk.yellow(`    M ${page.meta.slug}.md`));
+        console.log(chalk.yellow(`    M ${displayPath}`));
       } else {
-        console.log(chalk.gray(`      ${page.meta.slug}.md`));
+        console.log(chalk.gray(`      ${displayPath}`));
       }
     }
   }
 
   console.log("");
 
+  if (totalConflicts > 0) {
+    console.log(chalk.red(`${totalConflicts} file(s) with merge conflicts. Resolve the conflict markers before pushing.`));
+  }
+
   if (totalModified > 0) {
     console.log(chalk.yellow(`${totalModified} modified file(s). Run 'lh push' to sync.`));
-  } else {
+  } else if (totalConflicts === 0) {
     console.log(chalk.green("All files are synced."));
   }
 }
@@ -0,0 +1,82 @@
+import chalk from "chalk";
+import ora from "ora";
+import { isAuthenticated } from "../lib/config.js";
+import {
+  findTemplate,
+  listLocalTemplates,
+  listRemoteTemplates,
+  TEMPLATES_DIR,
+  TEMPLATES_PAGE_TITLE,
+  type Template,
+} from "../lib/templates.js";
+
+interface TemplatesListOptions {
+  local?: boolean;
+}
+
+function printTemplate(template: Template): void {
+  const description = template.description ? chalk.gray(` - ${template.description}`) : "";
+  console.log(`  ${chalk.cyan(template.name)}${description}`);
+  console.log(chalk.gray(`    ${template.location}`));
+}
+
+export async function templatesListCommand(options: TemplatesListOptions): Promise<void> {
+  if (!isAuthenticated()) {
+    console.log(chalk.red("Not logged in. Run 'lh login' first."));
+    return;
+  }
+
+  const local = listLocalTemplates();
+  let remote: Template[] = [];
+
+  if (!options.local) {
+    const spinner = ora("Fetching templates from LumifyHub...").start();
+    try {
+      const localNames = new Set(local.map((template) => template.name));
+      remote = (await listRemoteTemplates()).filter((template) => !localNames.has(template.name));
+      spinner.stop();
+    } catch (error) {
+      spinner.warn(`Couldn't fetch remote templates: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+  }
+
+  if (local.length === 0 && remote.length === 0) {
+    console.log(chalk.yellow("No templates found."));
+    console.log(
+      chalk.gray(`  Add Markdown files to ${TEMPLATES_DIR}/ in your pages directory, or child pages to a "${TEMPLATES_PAGE_TITLE}" page.`)
+    );
+    return;
+  }
+
+  if (local.length > 0) {
+    console.log(chalk.bold("\nLocal templates:\n"));
+    local.forEach(printTemplate);
+  }
+  if (remote.length > 0) {
+    console.log(chalk.bold("\nTemplates on LumifyHub:\n"));
+    remote.forEach(printTemplate);
+  }
+  console.log("");
+}
+
+export async function templatesShowCommand(name: string): Promise<void> {
+  if (!isAuthenticated()) {
+    console.log(chalk.red("Not logged in. Run 'lh login' first."));
+    return;
+  }
+
+  try {
+    const template = await findTemplate(name);
+    if (!template) {
+      console.log(chalk.red(`Template not found: ${name}`));
+      return;
+    }
+
+    console.log(chalk.gray(`${template.location}`));
+    if (template.title) console.log(chalk.gray(`Title: ${template.title}`));
+    console.log("");
+    console.log(template.content);
+  } catch (error) {
+    console.error(chalk.red(error instanceof Error ? error.message : "Unknown error"));
+  }
+}
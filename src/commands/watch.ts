@@ -0,0 +1,258 @@
+import chalk from "chalk";
+import ora from "ora";
+import { existsSync, readdirSync, statSync, watch, type Dirent, type FSWatcher } from "fs";
+import { join, relative, sep } from "path";
+import { getConfig, isAuthenticated } from "../lib/config.js";
+import { getDatabasesDir } from "../lib/db-files.js";
+import { initGitIfNeeded, commitChanges } from "../lib/git.js";
+import { withSyncLock } from "../lib/lock.js";
+import { pullPages, getPullCommitMessage } from "./pull.js";
+import { pushPages, formatPushSummary } from "./push.js";
+import { pullDatabases, pushDatabases } from "./db/index.js";
+
+interface WatchOptions {
+  workspace?: string;
+  interval?: string;
+  debounce?: string;
+}
+
+const DEFAULT_INTERVAL_SECONDS = 60;
+const DEFAULT_DEBOUNCE_MS = 1000;
+
+type Cycle = "push" | "pull";
+
+function log(symbol: string, message: string): void {
+  const time = new Date().toTimeString().slice(0, 8);
+  console.log(`${chalk.gray(`[${time}]`)} ${symbol} ${message}`);
+}
+
+/**
+ * Whether a changed path is CLI bookkeeping or git internals rather than a
+ * user edit
+ */
+function isIgnoredPath(path: string): boolean {
+  return path
+    .split(sep)
+    .some((part) => part === ".git" || part === ".lumifyhub" || part === ".trash" || part.endsWith("~"));
+}
+
+/**
+ * Watch a directory tree. Falls back to one watcher per directory where
+ * recursive watching isn't supported (Linux before Node 20), adding
+ * watchers as folders are created and dropping them as they're removed.
+ */
+function watchTree(root: string, onChange: (path: string) => void): FSWatcher[] {
+  try {
+    return [
+      watch(root, { recursive: true }, (_event, filename) => {
+        if (filename) onChange(filename.toString());
+      }),
+    ];
+  } catch {
+    const watchers: FSWatcher[] = [];
+    const watched = new Map<string, FSWatcher>();
+
+    const unwatchDir = (dir: string): void => {
+      for (const [path, watcher] of watched) {
+        if (path !== dir && !path.startsWith(dir + sep)) continue;
+        watcher.close();
+        watched.delete(path);
+        watchers.splice(watchers.indexOf(watcher), 1);
+      }
+    };
+
+    const watchDir = (dir: string): void => {
+      const rel = relative(root, dir);
+      if ((rel && isIgnoredPath(rel)) || watched.has(dir)) return;
+
+      let watcher: FSWatcher | undefined;
+      let entries: Dirent[];
+      try {
+        watcher = watch(dir, (_event, filename) => {
+          if (!filename) return;
+          const changed = join(dir, filename.toString());
+          const stats = statSync(changed, { throwIfNoEntry: false });
+          if (!stats) unwatchDir(changed);
+          else if (stats.isDirectory()) watchDir(changed);
+          onChange(relative(root, changed));
+        });
+        entries = readdirSync(dir, { withFileTypes: true });
+      } catch {
+        // Removed again before we got to it
+        watcher?.close();
+        return;
+      }
+      watched.set(dir, watcher);
+      watchers.push(watcher);
+
+      for (const entry of entries) {
+        if (entry.isDirectory()) watchDir(join(dir, entry.name));
+      }
+    };
+    watchDir(root);
+    return watchers;
+  }
+}
+
+/**
+ * Push pages and databases that changed locally
+ */
+async function runPush(options: WatchOptions): Promise<void> {
+  const spinner = ora({ isSilent: true });
+  const pushOptions = { workspace: options.workspace, background: true };
+
+  const pageResult = await pushPages(pushOptions, spinner);
+  const dbResult = await pushDatabases(pushOptions, undefined, spinner);
+
+  if (pageResult.changes > 0) {
+    const summary = formatPushSummary(pageResult);
+    if (summary) {
+      const ok = pageResult.failed === 0 && pageResult.conflicts === 0;
+      log(ok ? chalk.green("↑") : chalk.yellow("↑"), summary);
+    }
+    if (pageResult.conflicts > 0) {
+      log(chalk.yellow("!"), `${pageResult.conflicts} page(s) not pushed - run 'lh status' to see them`);
+    }
+    // Deleting or moving pages on LumifyHub always needs a confirmation
+    if (pageResult.unconfirmed > 0) {
+      log(
+        chalk.yellow("!"),
+        `${pageResult.unconfirmed} deleted or moved page(s) not synced - run 'lh push' to confirm`
+      );
+    }
+  }
+  if (dbResult.pushed > 0) log(chalk.green("↑"), `${dbResult.pushed} database(s)`);
+  if (dbResult.failed > 0) log(chalk.red("↑"), `${dbResult.failed} database(s) failed`);
+
+  if (pageResult.updated + pageResult.created + pageResult.moved + pageResult.removed > 0) {
+    initGitIfNeeded();
+    commitChanges("Push to LumifyHub");
+  }
+  if (dbResult.pushed > 0) {
+    initGitIfNeeded();
+    commitChanges("Push databases to LumifyHub");
+  }
+}
+
+/**
+ * Pull remote changes to pages and databases
+ */
+async function runPull(options: WatchOptions): Promise<void> {
+  const spinner = ora({ isSilent: true });
+  const pullOptions = { workspace: options.workspace, background: true };
+
+  // Snapshot unpushed edits so undoing this pull can't lose them
+  initGitIfNeeded();
+  commitChanges("Local edits before pull");
+
+  const pageResult = await pullPages(pullOptions, spinner);
+  const dbResult = await pullDatabases(pullOptions, undefined, spinner);
+
+  const summary: string[] = [];
+  if (pageResult.pulled > 0) summary.push(`${pageResult.pulled} updated`);
+  if (pageResult.merged > 0) summary.push(`${pageResult.merged} merged`);
+  if (pageResult.trashed > 0) summary.push(`${pageResult.trashed} deleted remotely`);
+  if (dbResult.pulled > 0) summary.push(`${dbResult.pulled} database(s)`);
+  if (summary.length > 0) log(chalk.cyan("↓"), summary.join(", "));
+
+  const conflicts = pageResult.conflicts + dbResult.conflicts;
+  if (conflicts > 0) {
+    log(chalk.yellow("!"), `${conflicts} conflict(s) - run 'lh status' to see them`);
+  }
+  if (pageResult.deletedModified > 0) {
+    log(chalk.yellow("!"), `${pageResult.deletedModified} page(s) deleted remotely but modified locally`);
+  }
+
+  const changed =
+    pageResult.pulled + pageResult.merged + pageResult.conflicts + pageResult.trashed + dbResult.pulled;
+  if (changed > 0) {
+    initGitIfNeeded();
+    commitChanges(getPullCommitMessage(pageResult));
+  }
+}
+
+export async function watchCommand(options: WatchOptions): Promise<void> {
+  if (!isAuthenticated()) {
+    console.log(chalk.red("Not logged in. Run 'lh login' first."));
+    return;
+  }
+
+  const intervalSeconds = options.interval ? parseInt(options.interval, 10) : DEFAULT_INTERVAL_SECONDS;
+  const debounceMs = options.debounce ? parseInt(options.debounce, 10) : DEFAULT_DEBOUNCE_MS;
+  if (!(intervalSeconds > 0) || !(debounceMs >= 0)) {
+    console.log(chalk.red("--interval and --debounce must be positive numbers"));
+    return;
+  }
+
+  const { pagesDir } = getConfig();
+  const roots = [pagesDir, getDatabasesDir()].filter((dir) => existsSync(dir));
+  if (roots.length === 0) {
+    console.log(chalk.yellow("Nothing to watch yet. Run 'lh pull' first."));
+    return;
+  }
+
+  // Cycles run one at a time; requests made while one runs are queued once
+  let running: Promise<void> | null = null;
+  const queued = new Set<Cycle>();
+  let stopping = false;
+
+  const runCycle = async (cycle: Cycle): Promise<void> => {
+    try {
+      await withSyncLock(() => (cycle === "push" ? runPush(options) : runPull(options)));
+    } catch (error) {
+      log(chalk.red("✖"), `${cycle} failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+  };
+
+  const schedule = (cycle: Cycle): void => {
+    if (stopping) return;
+    queued.add(cycle);
+    if (running) return;
+
+    running = (async () => {
+      while (queued.size > 0 && !stopping) {
+        // Push local edits before pulling so merges see them
+        const next: Cycle = queued.has("push") ? "push" : "pull";
+        queued.delete(next);
+        await runCycle(next);
+      }
+      running = null;
+    })();
+  };
+
+  let debounceTimer: NodeJS.Timeout | null = null;
+  const onChange = (path: string): void => {
+    if (isIgnoredPath(path)) return;
+    if (debounceTimer) clearTimeout(debounceTimer);
+    debounceTimer = setTimeout(() => {
+      debounceTimer = null;
+      schedule("push");
+    }, debounceMs);
+  };
+
+  const watchers = roots.flatMap((root) => watchTree(root, onChange));
+  const pollTimer = setInterval(() => schedule("pull"), intervalSeconds * 1000);
+
+  console.log(chalk.bold(`Watching ${roots.join(" and ")}`));
+  console.log(chalk.gray(`  Pulling every ${intervalSeconds}s. Press Ctrl+C to stop.\n`));
+
+  process.on("SIGINT", async () => {
+    if (stopping) return;
+    stopping = true;
+
+    for (const watcher of watchers) watcher.close();
+    clearInterval(pollTimer);
+    if (debounceTimer) clearTimeout(debounceTimer);
+
+    if (running) {
+      log(chalk.gray("…"), "Waiting for the current sync to finish");
+      await running;
+    }
+    log(chalk.gray("■"), "Stopped watching");
+    process.exit(0);
+  });
+
+  // Catch up on edits made while nothing was watching, then on the server
+  schedule("push");
+  schedule("pull");
+}
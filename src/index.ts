@@ -6,7 +6,24 @@ import { pullCommand } from "./commands/pull.js";
 import { pushCommand } from "./commands/push.js";
 import { searchCommand } from "./commands/search.js";
 import { statusCommand } from "./commands/status.js";
+import { watchCommand } from "./commands/watch.js";
+import { diffCommand } from "./commands/diff.js";
+import { historyCommand, restoreCommand, undoCommand } from "./commands/history.js";
+import { linksCommand } from "./commands/links.js";
+import { copyCommand } from "./commands/copy.js";
+import { exportHtmlCommand } from "./commands/export.js";
+import { importCommand } from "./commands/import.js";
+import { templatesListCommand, templatesShowCommand } from "./commands/templates.js";
+import { destResetCommand, destSetCommand, destShowCommand } from "./commands/dest.js";
 import { configCommand } from "./commands/config.js";
+import {
+  profileAddCommand,
+  profileListCommand,
+  profileRemoveCommand,
+  profileUseCommand,
+} from "./commands/profile.js";
+import { getActiveProfile, profileExists, setProfileOverride } from "./lib/config.js";
+import { migrateCommand } from "./commands/migrate.js";
 import { newCommand } from "./commands/new.js";
 import { addCommand } from "./commands/add.js";
 import { workspacesCommand } from "./commands/workspaces.js";
@@ -14,10 +31,28 @@ import { dbPullCommand, dbPushCommand, dbStatusCommand, dbListCommand } from "./
 
 const program = new Command();
 
+// Collect a repeatable option into a list
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
 program
   .name("lh")
   .description("LumifyHub CLI - sync and manage your pages locally")
-  .version("0.1.0");
+  .version("0.1.0")
+  .option("--profile <name>", "Run with a profile other than the current one (or set LUMIFYHUB_PROFILE)");
+
+// Pick the profile before any command reads the config
+program.hook("preAction", (_program, actionCommand) => {
+  const { profile } = program.opts<{ profile?: string }>();
+  if (profile) setProfileOverride(profile);
+
+  const inProfileCommand = actionCommand.parent?.name() === "profile";
+  if (!inProfileCommand && !profileExists(getActiveProfile())) {
+    console.error(`Profile not found: ${getActiveProfile()}. Run 'lh profile list' to see yours.`);
+    process.exit(1);
+  }
+});
 
 // Auth commands
 program
@@ -48,6 +83,7 @@ program
   .description("Push local changes to LumifyHub")
   .option("-w, --workspace <slug>", "Push only from specific workspace")
   .option("-f, --force", "Force overwrite remote changes")
+  .option("-y, --yes", "Apply remote moves and deletions without asking")
   .action(pushCommand);
 
 program
@@ -55,11 +91,68 @@ program
   .description("Show sync status of local pages")
   .action(statusCommand);
 
+program
+  .command("diff [page]")
+  .description("Show changes to local pages (file path or slug)")
+  .option("-r, --remote", "Compare with the current version on LumifyHub")
+  .option("--stat", "Show a summary of changed lines per page")
+  .option("--json", "Output as JSON")
+  .action(diffCommand);
+
+program
+  .command("links <page>")
+  .description("Show a page's outgoing links, backlinks and broken links")
+  .action(linksCommand);
+
+program
+  .command("copy <page>")
+  .description("Copy a page's Markdown to the clipboard")
+  .option("--url", "Copy the page's share URL instead")
+  .action(copyCommand);
+
+// History
+program
+  .command("history <page>")
+  .description("List past versions of a page from the local git history")
+  .action(historyCommand);
+
+program
+  .command("restore <page>")
+  .description("Restore an earlier version of a page into its local file")
+  .requiredOption("--at <rev|date>", "Version to restore: a commit from 'lh history' or a date")
+  .action(restoreCommand);
+
+program
+  .command("undo")
+  .description("Undo the most recent pull or push")
+  .action(undoCommand);
+
+program
+  .command("watch")
+  .description("Push local edits and pull remote changes continuously")
+  .option("-w, --workspace <slug>", "Sync only a specific workspace")
+  .option("-i, --interval <seconds>", "Seconds between checks for remote changes", "60")
+  .option("--debounce <ms>", "Wait this long after the last save before pushing", "1000")
+  .action(watchCommand);
+
+program
+  .command("migrate <mode>")
+  .description("Keep page sync metadata in frontmatter or in .lumifyhub/state.json (frontmatter | sidecar)")
+  .action(migrateCommand);
+
 // Search
 program
   .command("search <query>")
-  .description("Search through local pages")
+  .description("Search through local pages and database rows")
   .option("-w, --workspace <slug>", "Search only in specific workspace")
+  .option("--regex", "Treat the query as a regular expression")
+  .option("--fuzzy", "Tolerate typos in query words")
+  .option("-n, --limit <count>", "Maximum number of pages and of rows", "20")
+  .option("--pages-only", "Search only pages")
+  .option("--db-only", "Search only database rows")
+  .option("--remote", "Search on LumifyHub, including pages that aren't pulled")
+  .option("--pull", "With --remote, pull the hits that aren't local yet")
+  .option("--json", "Output as JSON")
   .action(searchCommand);
 
 // Config
@@ -68,8 +161,41 @@ program
   .description("View or update CLI configuration")
   .option("--api-url <url>", "Set API URL (e.g., http://localhost:3001)")
   .option("--pages-dir <path>", "Set local pages directory")
+  .option("--databases-dir <path>", "Set local databases directory")
+  .option("--property-keys <keys>", "Frontmatter keys to sync as page properties (comma-separated, \"\" for none)")
   .action(configCommand);
 
+// Profiles
+const profileCommand = program
+  .command("profile")
+  .description("Manage profiles for separate accounts and servers");
+
+profileCommand
+  .command("add <name>")
+  .description("Add a profile with its own login, API URL and directories")
+  .option("--api-url <url>", "API URL (default: https://www.lumifyhub.io)")
+  .option("--pages-dir <path>", "Pages directory (default: ~/.lumifyhub/profiles/<name>/pages)")
+  .option("--databases-dir <path>", "Databases directory (default: ~/.lumifyhub/profiles/<name>/databases)")
+  .option("--use", "Switch to the new profile")
+  .action(profileAddCommand);
+
+profileCommand
+  .command("use <name>")
+  .description("Switch to a profile")
+  .action(profileUseCommand);
+
+profileCommand
+  .command("list")
+  .alias("ls")
+  .description("List profiles")
+  .action(profileListCommand);
+
+profileCommand
+  .command("remove <name>")
+  .alias("rm")
+  .description("Remove a profile (its local files are kept)")
+  .action(profileRemoveCommand);
+
 // Hidden dev command - toggle local dev environment
 program
   .command("dev", { hidden: true })
@@ -91,17 +217,25 @@ program
 
 // Create commands
 program
-  .command("new <title>")
-  .description("Create a new page")
+  .command("new [title] [input]")
+  .description("Create a new page (pass - as input to read content from stdin)")
   .option("-w, --workspace <slug>", "Create in specific workspace")
   .option("-c, --content <text>", "Initial content for the page")
   .option("--from-file <path>", "Import content from a file")
   .option("--from-clipboard", "Import content from clipboard")
+  .option("-t, --template <name>", "Start from a template")
+  .option("--var <name=value>", "Value for a template placeholder (repeatable)", collect, [])
+  .option("--code [lang]", "Wrap the content in a code block")
+  .option("--exec <command>", "Run a command and record its output and exit code")
   .action(newCommand);
 
 program
-  .command("add <text>")
-  .description("Quick capture - create a note from text")
+  .command("add [text]")
+  .description("Quick capture - create a note from text, stdin or a command's output")
+  .option("--daily", "Append to today's page under Journal")
+  .option("--to <page>", "Append to an existing page (path, id, slug or workspace/slug)")
+  .option("--code [lang]", "Wrap the text in a code block")
+  .option("--exec <command>", "Run a command and record its output and exit code")
   .action(addCommand);
 
 program
@@ -110,6 +244,66 @@ program
   .description("List your workspaces")
   .action(workspacesCommand);
 
+// Capture destination
+const destCommand = program
+  .command("dest")
+  .description("Where lh add and lh new put pages");
+
+destCommand
+  .command("show", { isDefault: true })
+  .description("Show the destination for the current directory")
+  .action(destShowCommand);
+
+destCommand
+  .command("set <destination>")
+  .description("Send new pages to <workspace>[/<parent page>]")
+  .option("--dir [path]", "Only for notes captured in this directory (default: current)")
+  .action(destSetCommand);
+
+destCommand
+  .command("reset")
+  .description("Go back to the automatically picked destination")
+  .option("--dir [path]", "Remove the destination of this directory instead (default: current)")
+  .action(destResetCommand);
+
+// Templates
+const templatesCommand = program
+  .command("templates")
+  .description("Manage page templates for lh new");
+
+templatesCommand
+  .command("list")
+  .alias("ls")
+  .description("List local and remote templates")
+  .option("--local", "Only list templates in the templates folder")
+  .action(templatesListCommand);
+
+templatesCommand
+  .command("show <name>")
+  .description("Preview a template")
+  .action(templatesShowCommand);
+
+// Export
+const exportCommand = program
+  .command("export")
+  .description("Export local pages in other formats");
+
+exportCommand
+  .command("html")
+  .description("Export a workspace as a static HTML site")
+  .requiredOption("-w, --workspace <slug>", "Workspace to export")
+  .requiredOption("-o, --output <dir>", "Directory to write the site to")
+  .action(exportHtmlCommand);
+
+// Import
+program
+  .command("import <dir>")
+  .description("Import a folder of Markdown files as pages")
+  .requiredOption("-w, --workspace <slug>", "Workspace to import into")
+  .option("--format <format>", "Source format: obsidian, notion or markdown", "markdown")
+  .option("--dry-run", "Show what would be imported without changing anything")
+  .action(importCommand);
+
 // Database commands
 const dbCommand = program
   .command("db")
@@ -5,10 +5,45 @@ import type {
   ApiResponse,
   DatabaseListItem,
   DatabaseWithDetails,
+  PageHash,
+  RemoteSearchResult,
 } from "../types/index.js";
 
+// Conditional updates tried by appendToPage before giving up
+const APPEND_ATTEMPTS = 3;
+
+/**
+ * Thrown when the server rejects a write because the page changed remotely
+ */
+export class PageConflictError extends Error {
+  constructor(message = "Page was modified on LumifyHub since the last pull") {
+    super(message);
+    this.name = "PageConflictError";
+  }
+}
+
+/**
+ * Thrown when the page no longer exists on LumifyHub
+ */
+export class PageNotFoundError extends Error {
+  constructor(message = "Page not found on LumifyHub") {
+    super(message);
+    this.name = "PageNotFoundError";
+  }
+}
+
+/**
+ * Thrown when the server doesn't offer an endpoint yet (older deployments)
+ */
+export class EndpointNotSupportedError extends Error {
+  constructor(message = "This LumifyHub server doesn't support that yet") {
+    super(message);
+    this.name = "EndpointNotSupportedError";
+  }
+}
+
 class ApiClient {
-  private getHeaders(): HeadersInit {
+  private getHeaders(): Record<string, string> {
     const config = getConfig();
     if (!config.token) {
       throw new Error("Not authenticated. Run 'lh login' first.");
@@ -71,6 +106,37 @@ class ApiClient {
     return data.data;
   }
 
+  /**
+   * Full-text search across every page the token can read, including
+   * workspaces that were never pulled
+   */
+  async searchPages(query: string, workspaceSlug?: string, limit?: number): Promise<RemoteSearchResult[]> {
+    const url = new URL(`${this.getBaseUrl()}/search`);
+    url.searchParams.set("q", query);
+    if (workspaceSlug) {
+      url.searchParams.set("workspace", workspaceSlug);
+    }
+    if (limit) {
+      url.searchParams.set("limit", String(limit));
+    }
+
+    const response = await fetch(url.toString(), {
+      method: "GET",
+      headers: this.getHeaders(),
+    });
+
+    if (response.status === 404 || response.status === 405 || response.status === 501) {
+      throw new EndpointNotSupportedError("This LumifyHub server doesn't support search yet");
+    }
+
+    if (!response.ok) {
+      throw new Error(`Failed to search pages: ${response.statusText}`);
+    }
+
+    const data: ApiResponse<RemoteSearchResult[]> = await response.json();
+    return data.data;
+  }
+
   async getPage(pageId: string): Promise<Page> {
     const response = await fetch(`${this.getBaseUrl()}/pages/${pageId}`, {
       method: "GET",
@@ -85,17 +151,32 @@ class ApiClient {
     return data.data;
   }
 
+  /**
+   * Update a page. When expectedUpdatedAt is given, the server only applies
+   * the update if the page hasn't changed since that timestamp.
+   */
   async updatePage(
     pageId: string,
     content: string,
-    title?: string
+    title?: string,
+    expectedUpdatedAt?: string,
+    properties?: Record<string, unknown>
   ): Promise<Page> {
+    const headers = this.getHeaders();
+    if (expectedUpdatedAt) {
+      headers["If-Match"] = `"${expectedUpdatedAt}"`;
+    }
+
     const response = await fetch(`${this.getBaseUrl()}/pages/${pageId}`, {
       method: "PUT",
-      headers: this.getHeaders(),
-      body: JSON.stringify({ content, title }),
+      headers,
+      body: JSON.stringify({ content, title, properties }),
     });
 
+    if (response.status === 409 || response.status === 412) {
+      throw new PageConflictError();
+    }
+
     if (!response.ok) {
       throw new Error(`Failed to update page: ${response.statusText}`);
     }
@@ -104,30 +185,50 @@ class ApiClient {
     return data.data;
   }
 
-  async getPageHashes(): Promise<Record<string, string>> {
-    const response = await fetch(`${this.getBaseUrl()}/pages/hashes`, {
+  /**
+   * Fetch a map of page id to content hash, used to detect remote changes
+   * without downloading page content. Newer servers also send each page's
+   * updated_at, so metadata-only changes can be detected too.
+   */
+  async getPageHashes(workspaceSlug?: string): Promise<Record<string, PageHash>> {
+    const url = new URL(`${this.getBaseUrl()}/pages/hashes`);
+    if (workspaceSlug) {
+      url.searchParams.set("workspace", workspaceSlug);
+    }
+
+    const response = await fetch(url.toString(), {
       method: "GET",
       headers: this.getHeaders(),
     });
 
+    if (response.status === 404 || response.status === 405 || response.status === 501) {
+      throw new EndpointNotSupportedError("This LumifyHub server doesn't support page hashes yet");
+    }
+
     if (!response.ok) {
       throw new Error(`Failed to fetch page hashes: ${response.statusText}`);
     }
 
-    const data: ApiResponse<Record<string, string>> = await response.json();
-    return data.data;
+    const data: ApiResponse<Record<string, string | PageHash>> = await response.json();
+    return Object.fromEntries(
+      Object.entries(data.data).map(([id, entry]) => [id, typeof entry === "string" ? { hash: entry } : entry])
+    );
   }
 
   async createPage(
     title: string,
     content: string,
     workspaceSlug: string,
-    parentId?: string
+    parentId?: string,
+    properties?: Record<string, unknown>
   ): Promise<Page> {
-    const body: Record<string, string> = { title, content, workspace_slug: workspaceSlug };
+    const body: Record<string, unknown> = { title, content, workspace_slug: workspaceSlug };
     if (parentId) {
       body.parent_id = parentId;
     }
+    if (properties) {
+      body.properties = properties;
+    }
 
     const response = await fetch(`${this.getBaseUrl()}/pages`, {
       method: "POST",
@@ -144,6 +245,140 @@ class ApiClient {
     return data.data;
   }
 
+  async deletePage(pageId: string): Promise<void> {
+    const response = await fetch(`${this.getBaseUrl()}/pages/${pageId}`, {
+      method: "DELETE",
+      headers: this.getHeaders(),
+    });
+
+    if (response.status === 404) {
+      throw new PageNotFoundError();
+    }
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || `Failed to delete page: ${response.statusText}`);
+    }
+  }
+
+  /**
+   * Add content to the end of a page. The server appends it to whatever the
+   * page holds at that moment, so concurrent edits are kept. Older servers
+   * without the endpoint get a conditional update instead, retried when the
+   * page changes in between.
+   */
+  async appendToPage(pageId: string, content: string): Promise<Page> {
+    const response = await fetch(`${this.getBaseUrl()}/pages/${pageId}/append`, {
+      method: "POST",
+      headers: this.getHeaders(),
+      body: JSON.stringify({ content }),
+    });
+
+    if (response.ok) {
+      const data: ApiResponse<Page> = await response.json();
+      return data.data;
+    }
+
+    if (response.status !== 404 && response.status !== 405 && response.status !== 501) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || `Failed to append to page: ${response.statusText}`);
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      const page = await this.getPage(pageId);
+      const updated = page.content.trim() ? `${page.content.trimEnd()}\n${content}` : content;
+      try {
+        return await this.updatePage(pageId, updated, undefined, page.updated_at);
+      } catch (error) {
+        if (!(error instanceof PageConflictError) || attempt >= APPEND_ATTEMPTS) throw error;
+      }
+    }
+  }
+
+  async archivePage(pageId: string): Promise<void> {
+    const response = await fetch(`${this.getBaseUrl()}/pages/${pageId}/archive`, {
+      method: "POST",
+      headers: this.getHeaders(),
+    });
+
+    if (response.status === 404) {
+      throw new PageNotFoundError();
+    }
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || `Failed to archive page: ${response.statusText}`);
+    }
+  }
+
+  async movePage(pageId: string, workspaceSlug: string, parentId?: string): Promise<Page> {
+    const body: Record<string, string> = { workspace_slug: workspaceSlug };
+    if (parentId) {
+      body.parent_id = parentId;
+    }
+
+    const response = await fetch(`${this.getBaseUrl()}/pages/${pageId}/move`, {
+      method: "POST",
+      headers: this.getHeaders(),
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || `Failed to move page: ${response.statusText}`);
+    }
+
+    const data: ApiResponse<Page> = await response.json();
+    return data.data;
+  }
+
+  /**
+   * Upload an attachment and return its hosted URL
+   */
+  async uploadAsset(fileName: string, contents: Buffer, workspaceSlug: string): Promise<string> {
+    // Let fetch set the multipart Content-Type
+    const { "Content-Type": _contentType, ...headers } = this.getHeaders();
+    const form = new FormData();
+    form.append("file", new Blob([new Uint8Array(contents)]), fileName);
+    form.append("workspace_slug", workspaceSlug);
+
+    const response = await fetch(`${this.getBaseUrl()}/assets`, {
+      method: "POST",
+      headers,
+      body: form,
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || `Failed to upload ${fileName}: ${response.statusText}`);
+    }
+
+    const data: ApiResponse<{ url: string }> = await response.json();
+    return data.data.url;
+  }
+
+  /**
+   * Download an attachment. Credentials are only sent to LumifyHub itself.
+   */
+  async downloadAsset(url: string): Promise<{ data: Buffer; contentType: string | null }> {
+    const config = getConfig();
+    const sameOrigin = new URL(url).origin === new URL(config.apiUrl).origin;
+
+    const response = await fetch(url, {
+      method: "GET",
+      headers: sameOrigin && config.token ? { Authorization: `Bearer ${config.token}` } : {},
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to download ${url}: ${response.statusText}`);
+    }
+
+    return {
+      data: Buffer.from(await response.arrayBuffer()),
+      contentType: response.headers.get("content-type"),
+    };
+  }
+
   async createWorkspace(name: string): Promise<Workspace & { existing?: boolean }> {
     const response = await fetch(`${this.getBaseUrl()}/workspaces`, {
       method: "POST",
@@ -195,6 +430,26 @@ class ApiClient {
     return data.data;
   }
 
+  async createDatabase(
+    title: string,
+    workspaceSlug: string,
+    properties: Array<{ name: string; type: string }>
+  ): Promise<DatabaseWithDetails> {
+    const response = await fetch(`${this.getBaseUrl()}/databases`, {
+      method: "POST",
+      headers: this.getHeaders(),
+      body: JSON.stringify({ title, workspace_slug: workspaceSlug, properties }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || `Failed to create database: ${response.statusText}`);
+    }
+
+    const data: ApiResponse<DatabaseWithDetails> = await response.json();
+    return data.data;
+  }
+
   async batchUpdateRows(
     databaseId: string,
     operations: {
@@ -0,0 +1,330 @@
+import { createHash } from "crypto";
+import { existsSync, mkdirSync, readFileSync, realpathSync, statSync, writeFileSync } from "fs";
+import { basename, dirname, extname, isAbsolute, join, relative, sep } from "path";
+import { getConfig } from "./config.js";
+import { api } from "./api.js";
+import {
+  findLinkTargets,
+  isLocalTarget,
+  resolveLocalTarget,
+  rewriteLinkTargets,
+  type LinkKind,
+} from "./markdown.js";
+import { mapWithConcurrency } from "./concurrency.js";
+import { getSyncDir } from "./sync-state.js";
+
+// Per-workspace folder for downloaded attachments
+export const ASSETS_DIR = "_assets";
+
+// Parallel attachment downloads and uploads
+const TRANSFER_CONCURRENCY = 4;
+
+// File types that are pages rather than attachments
+const PAGE_EXTENSIONS = new Set(["", ".md", ".html", ".htm"]);
+
+// Local files push uploads; anything else stays a local link
+const ATTACHMENT_EXTENSIONS = new Set([
+  ".png", ".jpg", ".jpeg", ".gif", ".webp", ".svg", ".bmp", ".avif",
+  ".pdf", ".txt", ".csv", ".zip",
+  ".doc", ".docx", ".xls", ".xlsx", ".ppt", ".pptx",
+  ".mp3", ".mp4", ".mov", ".webm",
+]);
+
+const CONTENT_TYPE_EXTENSIONS: Record<string, string> = {
+  "image/png": ".png",
+  "image/jpeg": ".jpg",
+  "image/gif": ".gif",
+  "image/webp": ".webp",
+  "image/svg+xml": ".svg",
+  "application/pdf": ".pdf",
+};
+
+interface AssetEntry {
+  // Local file, relative to the pages directory
+  path: string;
+  hash: string;
+  size: number;
+  mtime: number;
+}
+
+interface AssetManifest {
+  // Keyed by hosted URL
+  assets: Record<string, AssetEntry>;
+}
+
+let cachedManifest: AssetManifest | null = null;
+let cachedMtime = 0;
+
+function getManifestPath(): string {
+  return join(getSyncDir(), "assets.json");
+}
+
+/**
+ * Load the URL <-> local file mapping, re-reading it when another lh process
+ * has changed it
+ */
+function loadManifest(): AssetManifest {
+  const manifestPath = getManifestPath();
+  if (!existsSync(manifestPath)) {
+    cachedManifest = cachedManifest ?? { assets: {} };
+    return cachedManifest;
+  }
+
+  const mtime = statSync(manifestPath).mtimeMs;
+  if (!cachedManifest || mtime !== cachedMtime) {
+    try {
+      cachedManifest = JSON.parse(readFileSync(manifestPath, "utf-8")) as AssetManifest;
+    } catch {
+      cachedManifest = { assets: {} };
+    }
+    cachedMtime = mtime;
+  }
+  return cachedManifest;
+}
+
+function recordAsset(url: string, absolutePath: string, hash: string): void {
+  const manifest = loadManifest();
+  const stat = statSync(absolutePath);
+  manifest.assets[url] = {
+    path: toPagesRelative(absolutePath),
+    hash,
+    size: stat.size,
+    mtime: stat.mtimeMs,
+  };
+
+  const manifestPath = getManifestPath();
+  mkdirSync(dirname(manifestPath), { recursive: true });
+  writeFileSync(manifestPath, JSON.stringify(manifest, null, 2) + "\n", "utf-8");
+  cachedMtime = statSync(manifestPath).mtimeMs;
+}
+
+function hashFile(data: Buffer): string {
+  return createHash("sha256").update(data).digest("hex").slice(0, 16);
+}
+
+function toPagesRelative(absolutePath: string): string {
+  return relative(getConfig().pagesDir, absolutePath).split(sep).join("/");
+}
+
+function isRemote(target: string): boolean {
+  return /^https?:\/\//i.test(target);
+}
+
+
+/**
+ * Remote targets worth mirroring: every image, and links to files hosted
+ * on LumifyHub
+ */
+function isRemoteAttachment(target: string, kind: LinkKind): boolean {
+  if (!isRemote(target)) return false;
+  if (kind === "image") return true;
+
+  try {
+    const url = new URL(target);
+    const apiHost = new URL(getConfig().apiUrl).hostname.replace(/^www\./, "");
+    const onLumifyHub = url.hostname === apiHost || url.hostname.endsWith(`.${apiHost}`);
+    return onLumifyHub && !PAGE_EXTENSIONS.has(extname(url.pathname).toLowerCase());
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether path is inside dir (or is dir itself)
+ */
+export function isInside(path: string, dir: string): boolean {
+  const rel = relative(dir, path);
+  return rel === "" || (!rel.startsWith("..") && !isAbsolute(rel));
+}
+
+/**
+ * Local targets to upload: images and known attachment types inside the
+ * page's workspace folder. Links elsewhere on disk are never uploaded.
+ */
+function isLocalAttachment(target: string, pagePath: string): boolean {
+  if (!isLocalTarget(target)) return false;
+  const path = resolveLocalTarget(target, pagePath);
+  if (!ATTACHMENT_EXTENSIONS.has(extname(path).toLowerCase())) return false;
+  if (!existsSync(path) || !statSync(path).isFile()) return false;
+
+  // Symlinks are followed, so one can't point outside the workspace either
+  const { pagesDir } = getConfig();
+  const [workspace] = relative(pagesDir, pagePath).split(sep);
+  const workspaceDir = join(pagesDir, workspace);
+  return Boolean(workspace) && existsSync(workspaceDir) && isInside(realpathSync(path), realpathSync(workspaceDir));
+}
+
+/**
+ * Hosted URL for a local file, if an identical file was uploaded or
+ * downloaded before
+ */
+function findUploadedUrl(absolutePath: string): string | null {
+  if (!existsSync(absolutePath)) return null;
+
+  const assets = Object.entries(loadManifest().assets);
+  const path = toPagesRelative(absolutePath);
+  const stat = statSync(absolutePath);
+
+  // Unchanged since we last saw it - no need to read the file
+  const known = assets.find(
+    ([, entry]) => entry.path === path && entry.size === stat.size && entry.mtime === stat.mtimeMs
+  );
+  if (known) return known[0];
+
+  const hash = hashFile(readFileSync(absolutePath));
+  const sameContent = assets.find(([, entry]) => entry.hash === hash);
+  return sameContent ? sameContent[0] : null;
+}
+
+/**
+ * Hosted URL of an _assets/ file recorded in the manifest, in whichever
+ * workspace it was stored. Pages link to another workspace's copy when the
+ * same URL was downloaded there first.
+ */
+function findRecordedUrl(absolutePath: string): string | null {
+  const path = toPagesRelative(absolutePath);
+  if (!path.split("/").includes(ASSETS_DIR)) return null;
+
+  const recorded = Object.entries(loadManifest().assets).find(([, entry]) => entry.path === path);
+  return recorded ? recorded[0] : null;
+}
+
+/**
+ * File name for a downloaded attachment, taken from its URL
+ */
+function assetFileName(url: string, contentType: string | null): string {
+  let name = "";
+  try {
+    name = decodeURIComponent(basename(new URL(url).pathname));
+  } catch {
+    // Fall through to a generated name
+  }
+  name = name.replace(/[^\w.-]+/g, "-").replace(/^[-.]+/, "");
+
+  if (!extname(name)) {
+    const type = contentType?.split(";")[0].trim().toLowerCase() ?? "";
+    name = `${name || "attachment"}${CONTENT_TYPE_EXTENSIONS[type] ?? ""}`;
+  }
+  return name;
+}
+
+/**
+ * Store an attachment in a workspace's _assets/ folder. A different file
+ * with the same name gets the content hash appended.
+ */
+function writeAsset(workspaceSlug: string, name: string, data: Buffer, hash: string): string {
+  const dir = join(getConfig().pagesDir, workspaceSlug, ASSETS_DIR);
+  mkdirSync(dir, { recursive: true });
+
+  let path = join(dir, name);
+  if (existsSync(path) && hashFile(readFileSync(path)) !== hash) {
+    const ext = extname(path);
+    path = `${path.slice(0, path.length - ext.length)}-${hash.slice(0, 8)}${ext}`;
+  }
+  if (!existsSync(path)) {
+    writeFileSync(path, data);
+  }
+  return path;
+}
+
+/**
+ * Download the attachments a page references into its workspace's _assets/
+ * folder. Attachments that fail to download keep their remote link.
+ */
+export async function downloadAssets(content: string, workspaceSlug: string): Promise<number> {
+  const { pagesDir } = getConfig();
+  const manifest = loadManifest();
+
+  const urls = new Set(
+    findLinkTargets(content)
+      .filter(({ target, kind }) => isRemoteAttachment(target, kind))
+      .map(({ target }) => target)
+      .filter((url) => {
+        const entry = manifest.assets[url];
+        return !entry || !existsSync(join(pagesDir, entry.path));
+      })
+  );
+
+  const downloaded = await mapWithConcurrency([...urls], TRANSFER_CONCURRENCY, async (url) => {
+    try {
+      const { data, contentType } = await api.downloadAsset(url);
+      const hash = hashFile(data);
+      const path = writeAsset(workspaceSlug, assetFileName(url, contentType), data, hash);
+      recordAsset(url, path, hash);
+      return true;
+    } catch {
+      return false;
+    }
+  });
+
+  return downloaded.filter(Boolean).length;
+}
+
+/**
+ * Upload the local attachments a page references that aren't on LumifyHub
+ * yet. Files already uploaded (same content hash) are skipped.
+ */
+export async function uploadAssets(content: string, pagePath: string, workspaceSlug: string): Promise<number> {
+  const paths = new Set(
+    findLinkTargets(content)
+      .filter(({ target }) => isLocalAttachment(target, pagePath))
+      .map(({ target }) => resolveLocalTarget(target, pagePath))
+      .filter((path) => findUploadedUrl(path) === null)
+  );
+
+  const uploaded = await mapWithConcurrency([...paths], TRANSFER_CONCURRENCY, async (path) => {
+    const data = readFileSync(path);
+    const url = await api.uploadAsset(basename(path), data, workspaceSlug);
+    recordAsset(url, path, hashFile(data));
+  });
+
+  return uploaded.length;
+}
+
+/**
+ * Copy a file from outside the mirror (lh import) into the workspace's
+ * _assets/ folder and upload it. Returns its hosted URL; files uploaded
+ * before are reused.
+ */
+export async function importAsset(sourcePath: string, workspaceSlug: string): Promise<string> {
+  const data = readFileSync(sourcePath);
+  const hash = hashFile(data);
+
+  const known = Object.entries(loadManifest().assets).find(([, entry]) => entry.hash === hash);
+  if (known) return known[0];
+
+  const name = basename(sourcePath).replace(/[^\w.-]+/g, "-").replace(/^[-.]+/, "") || "attachment";
+  const path = writeAsset(workspaceSlug, name, data, hash);
+  const url = await api.uploadAsset(basename(path), data, workspaceSlug);
+  recordAsset(url, path, hash);
+  return url;
+}
+
+/**
+ * Point links at downloaded attachments to the local copies
+ */
+export function localizeAssetLinks(content: string, pagePath: string): string {
+  const { pagesDir } = getConfig();
+  const manifest = loadManifest();
+
+  return rewriteLinkTargets(content, (target) => {
+    const entry = isRemote(target) ? manifest.assets[target] : undefined;
+    if (!entry) return null;
+
+    const assetPath = join(pagesDir, entry.path);
+    if (!existsSync(assetPath)) return null;
+
+    return relative(dirname(pagePath), assetPath).split(sep).join("/");
+  });
+}
+
+/**
+ * Point links at local attachments back to their hosted URLs. Files that
+ * haven't been uploaded yet keep their local path.
+ */
+export function remoteAssetLinks(content: string, pagePath: string): string {
+  return rewriteLinkTargets(content, (target) => {
+    if (isLocalAttachment(target, pagePath)) return findUploadedUrl(resolveLocalTarget(target, pagePath));
+    return isLocalTarget(target) ? findRecordedUrl(resolveLocalTarget(target, pagePath)) : null;
+  });
+}
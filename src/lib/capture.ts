@@ -0,0 +1,72 @@
+/**
+ * Capturing text for lh add and lh new from stdin or from the output of a
+ * command, and wrapping it in a fenced code block.
+ */
+
+import { spawn } from "child_process";
+
+// Colour and cursor escapes that terminal programs print
+const ANSI_ESCAPE = /\u001b\[[0-9;?]*[A-Za-z]|\u001b\][^\u0007]*\u0007/g;
+
+export interface ExecResult {
+  output: string;
+  // null when the command was ended by a signal
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+}
+
+/**
+ * Everything piped into the process. Fails when stdin is a terminal, so a
+ * missing pipe doesn't leave the command waiting for input.
+ */
+export async function readStdin(): Promise<string> {
+  if (process.stdin.isTTY) {
+    throw new Error("Nothing piped to stdin");
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString("utf-8");
+}
+
+/**
+ * Run a shell command, collecting stdout and stderr in the order they
+ * arrive. A non-zero exit code is part of the result, not an error.
+ */
+export function execCapture(command: string): Promise<ExecResult> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, { shell: true, stdio: ["ignore", "pipe", "pipe"] });
+    const chunks: Buffer[] = [];
+    child.stdout.on("data", (chunk: Buffer) => chunks.push(chunk));
+    child.stderr.on("data", (chunk: Buffer) => chunks.push(chunk));
+    child.on("error", reject);
+    child.on("close", (exitCode, signal) => {
+      resolve({ output: Buffer.concat(chunks).toString("utf-8"), exitCode, signal });
+    });
+  });
+}
+
+/**
+ * Wrap text in a fenced code block, with a fence longer than any run of
+ * backticks inside it
+ */
+export function toCodeBlock(text: string, lang = ""): string {
+  const longest = Math.max(0, ...[...text.matchAll(/`{3,}/g)].map((match) => match[0].length));
+  const fence = "`".repeat(Math.max(3, longest + 1));
+  return `${fence}${lang}\n${text.replace(/\n+$/, "")}\n${fence}`;
+}
+
+/**
+ * Markdown recording a command, its exit status and its output
+ */
+export function formatExecResult(command: string, result: ExecResult, lang = ""): string {
+  const status =
+    result.signal !== null ? `was stopped by ${result.signal}` : `exited with code ${result.exitCode}`;
+  const output = result.output.replace(ANSI_ESCAPE, "");
+  const body = output.trim() ? toCodeBlock(output, lang) : "_No output_";
+  // Commands with backticks need a longer code span
+  const span = command.includes("`") ? `\`\` $ ${command} \`\`` : `\`$ ${command}\``;
+  return `${span} ${status}\n\n${body}`;
+}
@@ -1,39 +1,97 @@
 import Conf from "conf";
+import { rmSync } from "fs";
+import { DEFAULT_PROFILE, getActiveProfile } from "./config.js";
+
+export interface DirectoryDestination {
+  workspace: string;
+  parentId?: string;
+  parentTitle?: string;
+}
 
 interface CliConfig {
   destinationWorkspace?: string;
   destinationParentId?: string;
-  destinationType?: "workspace" | "parent";
+  destinationParentTitle?: string;
+  // "workspace" and "parent" were picked automatically, "custom" with lh dest set
+  destinationType?: "workspace" | "parent" | "custom";
+  // Destinations for notes captured inside a directory, by absolute path
+  directoryDestinations?: Record<string, DirectoryDestination>;
 }
 
-const store = new Conf<CliConfig>({
-  projectName: "lumifyhub-cli",
-  configName: "cli-state",
-  defaults: {},
-});
+const stores = new Map<string, Conf<CliConfig>>();
+
+/**
+ * State of one profile; the default profile keeps the original file
+ */
+function getStore(profile = getActiveProfile()): Conf<CliConfig> {
+  let store = stores.get(profile);
+  if (!store) {
+    store = new Conf<CliConfig>({
+      projectName: "lumifyhub-cli",
+      configName: profile === DEFAULT_PROFILE ? "cli-state" : `cli-state-${profile}`,
+      defaults: {},
+    });
+    stores.set(profile, store);
+  }
+  return store;
+}
 
 export function getCliConfig(): CliConfig {
+  const store = getStore();
   return {
     destinationWorkspace: store.get("destinationWorkspace"),
     destinationParentId: store.get("destinationParentId"),
+    destinationParentTitle: store.get("destinationParentTitle"),
     destinationType: store.get("destinationType"),
+    directoryDestinations: store.get("directoryDestinations"),
   };
 }
 
 export function setCliConfig(config: Partial<CliConfig>): void {
+  const store = getStore();
   if (config.destinationWorkspace !== undefined) {
     store.set("destinationWorkspace", config.destinationWorkspace);
   }
   if (config.destinationParentId !== undefined) {
     store.set("destinationParentId", config.destinationParentId);
   }
+  if (config.destinationParentTitle !== undefined) {
+    store.set("destinationParentTitle", config.destinationParentTitle);
+  }
   if (config.destinationType !== undefined) {
     store.set("destinationType", config.destinationType);
   }
 }
 
 export function clearCliConfig(): void {
+  const store = getStore();
   store.delete("destinationWorkspace");
   store.delete("destinationParentId");
+  store.delete("destinationParentTitle");
   store.delete("destinationType");
 }
+
+export function setDirectoryDestination(dir: string, destination: DirectoryDestination): void {
+  const store = getStore();
+  store.set("directoryDestinations", { ...store.get("directoryDestinations"), [dir]: destination });
+}
+
+/**
+ * Returns false when the directory had no destination of its own
+ */
+export function removeDirectoryDestination(dir: string): boolean {
+  const store = getStore();
+  const destinations = { ...store.get("directoryDestinations") };
+  if (!(dir in destinations)) return false;
+  delete destinations[dir];
+  store.set("directoryDestinations", destinations);
+  return true;
+}
+
+/**
+ * Forget everything stored for a profile that is being removed
+ */
+export function clearCliState(profile: string): void {
+  rmSync(getStore(profile).path, { force: true });
+  stores.delete(profile);
+}
@@ -0,0 +1,178 @@
+/**
+ * Clipboard access through whichever clipboard tool is installed: wl-paste
+ * and wl-copy on Wayland, xclip or xsel on X11, pbpaste and pbcopy on macOS.
+ * Tools are looked up on PATH, and LUMIFYHUB_CLIPBOARD picks one by name.
+ */
+
+import { execFileSync } from "child_process";
+import { accessSync, constants } from "fs";
+import { delimiter, join } from "path";
+import TurndownService from "turndown";
+
+interface ClipboardProvider {
+  name: string;
+  // Commands as [binary, ...args]
+  read: string[];
+  write: string[];
+  // Lists the formats on the clipboard, and reads the HTML one
+  listTypes?: string[];
+  readHtml?: string[];
+}
+
+const PROVIDERS: ClipboardProvider[] = [
+  {
+    name: "wl-paste",
+    read: ["wl-paste", "--no-newline"],
+    write: ["wl-copy"],
+    listTypes: ["wl-paste", "--list-types"],
+    readHtml: ["wl-paste", "--no-newline", "--type", "text/html"],
+  },
+  {
+    name: "xclip",
+    read: ["xclip", "-selection", "clipboard", "-o"],
+    write: ["xclip", "-selection", "clipboard", "-i"],
+    listTypes: ["xclip", "-selection", "clipboard", "-o", "-t", "TARGETS"],
+    readHtml: ["xclip", "-selection", "clipboard", "-o", "-t", "text/html"],
+  },
+  {
+    name: "xsel",
+    read: ["xsel", "--clipboard", "--output"],
+    write: ["xsel", "--clipboard", "--input"],
+  },
+  {
+    name: "pbpaste",
+    read: ["pbpaste"],
+    write: ["pbcopy"],
+  },
+];
+
+// Clipboard contents can be much larger than execFileSync's default buffer
+const MAX_BUFFER = 64 * 1024 * 1024;
+
+function isOnPath(binary: string): boolean {
+  for (const dir of (process.env.PATH ?? "").split(delimiter)) {
+    if (!dir) continue;
+    try {
+      accessSync(join(dir, binary), constants.X_OK);
+      return true;
+    } catch {
+      // Not in this directory
+    }
+  }
+  return false;
+}
+
+/**
+ * Providers in the order they're tried: the one named in
+ * LUMIFYHUB_CLIPBOARD, else the platform's native tool first
+ */
+function getCandidates(): ClipboardProvider[] {
+  const override = process.env.LUMIFYHUB_CLIPBOARD;
+  if (override) {
+    const provider = PROVIDERS.find((p) => p.name === override || p.write[0] === override);
+    if (!provider) {
+      throw new Error(
+        `Unknown clipboard tool in LUMIFYHUB_CLIPBOARD: ${override}. Use one of: ${PROVIDERS.map((p) => p.name).join(", ")}`
+      );
+    }
+    return [provider];
+  }
+
+  const byName = (name: string) => PROVIDERS.find((p) => p.name === name)!;
+  if (process.platform === "darwin") {
+    return [byName("pbpaste"), ...PROVIDERS.filter((p) => p.name !== "pbpaste")];
+  }
+  if (process.env.WAYLAND_DISPLAY) {
+    return PROVIDERS;
+  }
+  return [byName("xclip"), byName("xsel"), byName("wl-paste"), byName("pbpaste")];
+}
+
+function getProvider(mode: "read" | "write"): ClipboardProvider {
+  const provider = getCandidates().find((p) => isOnPath(p[mode][0]));
+  if (!provider) {
+    throw new Error("No clipboard tool found. Install wl-clipboard (Wayland), xclip or xsel (X11).");
+  }
+  return provider;
+}
+
+function run([binary, ...args]: string[], input?: string): string {
+  try {
+    return execFileSync(binary, args, {
+      input,
+      encoding: "utf-8",
+      maxBuffer: MAX_BUFFER,
+      // xclip and wl-copy stay in the background to serve the clipboard;
+      // leaving their output attached would wait for them to exit
+      stdio: input === undefined ? ["ignore", "pipe", "pipe"] : ["pipe", "ignore", "ignore"],
+    });
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    throw new Error(`${binary} failed${stderr ? `: ${stderr}` : ""}`);
+  }
+}
+
+/**
+ * Convert HTML (as copied from a browser or editor) to Markdown
+ */
+export function htmlToMarkdown(html: string): string {
+  const turndown = new TurndownService({
+    headingStyle: "atx",
+    codeBlockStyle: "fenced",
+    bulletListMarker: "-",
+    emDelimiter: "_",
+  });
+  turndown.remove(["head", "meta", "style", "script", "title"]);
+
+  // Turndown pads list markers to four characters; use a single space
+  turndown.addRule("listItem", {
+    filter: "li",
+    replacement: (content, node, options) => {
+      const parent = node.parentNode as HTMLElement;
+      let marker = `${options.bulletListMarker} `;
+      if (parent.nodeName === "OL") {
+        const start = Number(parent.getAttribute("start") ?? 1);
+        marker = `${start + Array.prototype.indexOf.call(parent.children, node)}. `;
+      }
+      const body = content
+        .replace(/^\n+/, "")
+        .replace(/\n+$/, "\n")
+        .replace(/\n(?!$)/g, `\n${" ".repeat(marker.length)}`);
+      return marker + body + (node.nextSibling && !body.endsWith("\n") ? "\n" : "");
+    },
+  });
+
+  return turndown.turndown(html).trim();
+}
+
+/**
+ * The clipboard's contents as Markdown. Rich text is converted from its
+ * HTML form when the clipboard tool can read it; otherwise plain text.
+ */
+export function readClipboard(): string {
+  const provider = getProvider("read");
+
+  if (provider.listTypes && provider.readHtml) {
+    let types: string[] = [];
+    try {
+      types = run(provider.listTypes).split("\n").map((type) => type.trim());
+    } catch {
+      // An empty clipboard has no types; fall back to plain text
+    }
+    if (types.includes("text/html")) {
+      const markdown = htmlToMarkdown(run(provider.readHtml));
+      if (markdown) return markdown;
+    }
+  }
+
+  return run(provider.read);
+}
+
+/**
+ * Put text on the clipboard. Returns the name of the tool used.
+ */
+export function writeClipboard(text: string): string {
+  const provider = getProvider("write");
+  run(provider.write, text);
+  return provider.write[0];
+}
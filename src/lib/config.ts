@@ -5,8 +5,20 @@ import type { Config } from "../types/index.js";
 
 const DEFAULT_API_URL = "https://www.lumifyhub.io";
 const DEFAULT_PAGES_DIR = join(homedir(), ".lumifyhub", "pages");
+const DEFAULT_DATABASES_DIR = join(homedir(), ".lumifyhub", "databases");
 
-const store = new Conf<Config>({
+// The profile kept in the top-level keys, as before profiles existed
+export const DEFAULT_PROFILE = "default";
+
+const PROFILE_NAME = /^[a-z0-9][a-z0-9_-]*$/i;
+
+interface StoredConfig extends Config {
+  activeProfile?: string;
+  // Every profile but the default one, by name
+  profiles?: Record<string, Partial<Config>>;
+}
+
+const store = new Conf<StoredConfig>({
   projectName: "lumifyhub-cli",
   defaults: {
     apiUrl: DEFAULT_API_URL,
@@ -14,39 +26,135 @@ const store = new Conf<Config>({
     userId: null,
     email: null,
     pagesDir: DEFAULT_PAGES_DIR,
+    databasesDir: DEFAULT_DATABASES_DIR,
+    propertyKeys: [],
   },
 });
 
-export function getConfig(): Config {
+// Set from the global --profile option
+let profileOverride: string | null = null;
+
+export function setProfileOverride(name: string): void {
+  profileOverride = name;
+}
+
+/**
+ * The profile commands run against: --profile, then LUMIFYHUB_PROFILE, then
+ * the one picked with lh profile use
+ */
+export function getActiveProfile(): string {
+  return profileOverride ?? process.env.LUMIFYHUB_PROFILE ?? store.get("activeProfile") ?? DEFAULT_PROFILE;
+}
+
+export function setActiveProfile(name: string): void {
+  if (name === DEFAULT_PROFILE) {
+    store.delete("activeProfile");
+  } else {
+    store.set("activeProfile", name);
+  }
+}
+
+export function isValidProfileName(name: string): boolean {
+  return PROFILE_NAME.test(name);
+}
+
+export function listProfiles(): string[] {
+  return [DEFAULT_PROFILE, ...Object.keys(store.get("profiles") ?? {}).sort()];
+}
+
+export function profileExists(name: string): boolean {
+  return listProfiles().includes(name);
+}
+
+/**
+ * Settings of a new profile: its own directories under ~/.lumifyhub/profiles
+ */
+function getProfileDefaults(name: string): Config {
+  const dir = join(homedir(), ".lumifyhub", "profiles", name);
   return {
-    apiUrl: store.get("apiUrl"),
-    token: store.get("token"),
-    userId: store.get("userId"),
-    email: store.get("email"),
-    pagesDir: store.get("pagesDir"),
+    apiUrl: DEFAULT_API_URL,
+    token: null,
+    userId: null,
+    email: null,
+    pagesDir: join(dir, "pages"),
+    databasesDir: join(dir, "databases"),
+    propertyKeys: [],
   };
 }
 
+export function getProfileConfig(name: string): Config {
+  if (name === DEFAULT_PROFILE) {
+    return {
+      apiUrl: store.get("apiUrl"),
+      token: store.get("token"),
+      userId: store.get("userId"),
+      email: store.get("email"),
+      pagesDir: store.get("pagesDir"),
+      databasesDir: store.get("databasesDir"),
+      propertyKeys: store.get("propertyKeys"),
+    };
+  }
+  return { ...getProfileDefaults(name), ...store.get("profiles")?.[name] };
+}
+
+function updateProfile(name: string, changes: Partial<Config>): void {
+  if (name === DEFAULT_PROFILE) {
+    for (const [key, value] of Object.entries(changes)) {
+      store.set(key as keyof Config, value);
+    }
+    return;
+  }
+
+  const profiles = store.get("profiles") ?? {};
+  store.set("profiles", { ...profiles, [name]: { ...profiles[name], ...changes } });
+}
+
+export function addProfile(name: string, settings: Partial<Config>): Config {
+  updateProfile(name, { ...getProfileDefaults(name), ...settings });
+  return getProfileConfig(name);
+}
+
+/**
+ * Returns true when it was the profile picked with lh profile use
+ */
+export function removeProfile(name: string): boolean {
+  const profiles = { ...store.get("profiles") };
+  delete profiles[name];
+  store.set("profiles", profiles);
+
+  if (store.get("activeProfile") !== name) return false;
+  store.delete("activeProfile");
+  return true;
+}
+
+export function getConfig(): Config {
+  return getProfileConfig(getActiveProfile());
+}
+
 export function setToken(token: string, userId: string, email: string): void {
-  store.set("token", token);
-  store.set("userId", userId);
-  store.set("email", email);
+  updateProfile(getActiveProfile(), { token, userId, email });
 }
 
 export function clearAuth(): void {
-  store.set("token", null);
-  store.set("userId", null);
-  store.set("email", null);
+  updateProfile(getActiveProfile(), { token: null, userId: null, email: null });
 }
 
 export function setApiUrl(url: string): void {
-  store.set("apiUrl", url);
+  updateProfile(getActiveProfile(), { apiUrl: url });
 }
 
 export function setPagesDir(dir: string): void {
-  store.set("pagesDir", dir);
+  updateProfile(getActiveProfile(), { pagesDir: dir });
+}
+
+export function setDatabasesDir(dir: string): void {
+  updateProfile(getActiveProfile(), { databasesDir: dir });
+}
+
+export function setPropertyKeys(keys: string[]): void {
+  updateProfile(getActiveProfile(), { propertyKeys: keys });
 }
 
 export function isAuthenticated(): boolean {
-  return store.get("token") !== null;
+  return getConfig().token !== null;
 }
@@ -0,0 +1,48 @@
+/**
+ * Conversions between page content as stored on LumifyHub and as written to
+ * local files. Hashes, merge bases and the API always use the remote form;
+ * files on disk use the local form, whose links depend on the file's path.
+ */
+
+import { dirname, relative, sep } from "path";
+import { localizeAssetLinks, remoteAssetLinks } from "./assets.js";
+import { isLocalTarget, resolveLocalTarget, rewriteLinkTargets } from "./markdown.js";
+import {
+  normalizePageUrls,
+  pageUrlsToLocal,
+  pageUrlsToRemote,
+  wikiLinksToLocal,
+  wikiLinksToRemote,
+} from "./files.js";
+
+/**
+ * Convert remote page content into what gets written to the file at pagePath
+ */
+export function toLocalContent(content: string, pagePath: string): string {
+  const local = wikiLinksToLocal(localizeAssetLinks(content, pagePath), pagePath);
+  return pageUrlsToLocal(local, pagePath);
+}
+
+/**
+ * Convert the content of the file at pagePath back into its remote form.
+ * Only uses what is already known locally; push uploads new attachments
+ * first (see uploadAssets).
+ */
+export function toRemoteContent(content: string, pagePath: string): string {
+  const remote = normalizePageUrls(pageUrlsToRemote(content, pagePath));
+  return remoteAssetLinks(wikiLinksToRemote(remote, pagePath), pagePath);
+}
+
+/**
+ * Keep relative links working when a file moves from one path to another
+ */
+export function rebaseLocalLinks(content: string, fromPath: string, toPath: string): string {
+  if (dirname(fromPath) === dirname(toPath)) return content;
+
+  return rewriteLinkTargets(content, (target) => {
+    if (!isLocalTarget(target)) return null;
+    const anchor = target.includes("#") ? target.slice(target.indexOf("#")) : "";
+    const absolute = resolveLocalTarget(target, fromPath);
+    return relative(dirname(toPath), absolute).split(sep).join("/") + anchor;
+  });
+}
@@ -1,13 +1,11 @@
 import { createHash } from "crypto";
 import { existsSync, mkdirSync, readFileSync, writeFileSync, readdirSync, statSync, rmSync } from "fs";
 import { join } from "path";
-import { homedir } from "os";
+import { getConfig } from "./config.js";
 import type { DatabaseSchema, DatabaseRow, PropertyMeta, DataSourceMeta, DatabaseSyncStatus } from "../types/index.js";
 
-const DEFAULT_DATABASES_DIR = join(homedir(), ".lumifyhub", "databases");
-
 export function getDatabasesDir(): string {
-  return DEFAULT_DATABASES_DIR;
+  return getConfig().databasesDir;
 }
 
 export function getDatabasePath(workspaceSlug: string, dbSlug: string): string {
@@ -246,15 +244,15 @@ function escapeYamlString(str: string): string {
 }
 
 // Simple CSV parser/writer
-function parseCsv(content: string): Record<string, string>[] {
-  const lines = content.split("\n").filter((l) => l.trim());
+export function parseCsv(content: string): Record<string, string>[] {
+  const lines = parseCsvRows(content.replace(/^\uFEFF/, "")).filter((values) => values.some((v) => v.trim()));
   if (lines.length === 0) return [];
 
-  const headers = parseCsvLine(lines[0]);
+  const headers = lines[0];
   const records: Record<string, string>[] = [];
 
   for (let i = 1; i < lines.length; i++) {
-    const values = parseCsvLine(lines[i]);
+    const values = lines[i];
     const record: Record<string, string> = {};
     for (let j = 0; j < headers.length; j++) {
       record[headers[j]] = values[j] || "";
@@ -265,16 +263,21 @@ function parseCsv(content: string): Record<string, string>[] {
   return records;
 }
 
-function parseCsvLine(line: string): string[] {
-  const values: string[] = [];
+/**
+ * Split CSV content into rows of values. Quoted values may contain commas,
+ * escaped quotes and line breaks.
+ */
+function parseCsvRows(content: string): string[][] {
+  const rows: string[][] = [];
+  let values: string[] = [];
   let current = "";
   let inQuotes = false;
 
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
 
     if (char === '"') {
-      if (inQuotes && line[i + 1] === '"') {
+      if (inQuotes && content[i + 1] === '"') {
         current += '"';
         i++;
       } else {
@@ -283,13 +286,22 @@ function parseCsvLine(line: string): string[] {
     } else if (char === "," && !inQuotes) {
       values.push(current);
       current = "";
+    } else if ((char === "\n" || char === "\r") && !inQuotes) {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      values.push(current);
+      rows.push(values);
+      values = [];
+      current = "";
     } else {
       current += char;
     }
   }
-  values.push(current);
+  if (current || values.length > 0) {
+    values.push(current);
+    rows.push(values);
+  }
 
-  return values;
+  return rows;
 }
 
 function stringifyCsv(records: Record<string, string>[], columns: string[]): string {
@@ -0,0 +1,154 @@
+import { relative, sep } from "path";
+import { getAllLocalDatabases, getDatabasesDir } from "./db-files.js";
+import {
+  countTerms,
+  createPostings,
+  matchesUpdated,
+  parseQuery,
+  phrasePatterns,
+  rankDocs,
+  wordsPattern,
+  type ParsedQuery,
+  type SearchOptions,
+  type TermIndex,
+} from "./search-index.js";
+import type { DatabaseRow, DatabaseSchema } from "../types/index.js";
+
+export interface RowMatch {
+  // Property name as shown in LumifyHub, or "Title"
+  property: string;
+  value: string;
+}
+
+export interface RowHit {
+  database: string;
+  workspace: string;
+  // Database directory, relative to the databases directory
+  path: string;
+  rowId: string;
+  rowTitle: string;
+  score: number;
+  matches: RowMatch[];
+  highlight: RegExp | null;
+}
+
+interface IndexedRow {
+  schema: DatabaseSchema;
+  workspace: string;
+  path: string;
+  row: DatabaseRow;
+  // Title first, then the non-empty cells by property name
+  fields: RowMatch[];
+}
+
+/**
+ * The title and non-empty cells of a row, with property ids resolved to
+ * their names
+ */
+function getRowFields(schema: DatabaseSchema, row: DatabaseRow): RowMatch[] {
+  const fields: RowMatch[] = [{ property: "Title", value: row._title }];
+  const sorted = [...schema.properties].sort((a, b) => a.sort_order - b.sort_order);
+  for (const property of sorted) {
+    const value = row[property.property_id];
+    if (value) fields.push({ property: property.property_name, value });
+  }
+  return fields;
+}
+
+function loadRows(): Map<string, IndexedRow> {
+  const rows = new Map<string, IndexedRow>();
+  for (const db of getAllLocalDatabases()) {
+    const path = relative(getDatabasesDir(), db.path).split(sep).join("/");
+    for (const row of db.rows) {
+      rows.set(`${path}#${row._id}`, {
+        schema: db.schema,
+        workspace: db.workspaceSlug,
+        path,
+        row,
+        fields: getRowFields(db.schema, row),
+      });
+    }
+  }
+  return rows;
+}
+
+/**
+ * Rank rows as documents of their own, built fresh for each search
+ */
+function buildRowIndex(rows: Map<string, IndexedRow>): TermIndex {
+  const index: TermIndex = { docs: {}, postings: createPostings() };
+  for (const [key, { row, fields }] of rows) {
+    const cells = fields.slice(1).map((field) => field.value);
+    let length = 0;
+    for (const [term, frequency] of countTerms(row._title, cells.join("\n"))) {
+      (index.postings[term] ??= {})[key] = frequency;
+      length += frequency;
+    }
+    index.docs[key] = { length };
+  }
+  return index;
+}
+
+function passesFilters(row: IndexedRow, query: ParsedQuery, options: SearchOptions): boolean {
+  const workspace = query.workspace ?? options.workspace;
+  if (workspace && row.workspace !== workspace) return false;
+  if (query.title !== undefined && !row.row._title.toLowerCase().includes(query.title)) return false;
+  if (query.updated && !matchesUpdated(row.schema.updated_at, query.updated)) return false;
+  return true;
+}
+
+function toHit(row: IndexedRow, score: number, pattern: RegExp | null): RowHit {
+  const matches = pattern
+    ? row.fields.filter((field) => {
+        pattern.lastIndex = 0;
+        return pattern.test(field.value);
+      })
+    : [];
+
+  return {
+    database: row.schema.title,
+    workspace: row.workspace,
+    path: row.path,
+    rowId: row.row._id,
+    rowTitle: row.row._title,
+    score,
+    matches,
+    highlight: pattern,
+  };
+}
+
+/**
+ * Search the rows of the locally mirrored databases by title and cell
+ * values. Throws on an invalid --regex pattern.
+ */
+export function searchDatabaseRows(query: string, options: SearchOptions = {}): RowHit[] {
+  const parsed = parseQuery(query);
+  const rows = loadRows();
+  const candidates = [...rows.keys()].filter((key) => passesFilters(rows.get(key)!, parsed, options));
+  let hits: RowHit[];
+
+  if (options.mode === "regex" && parsed.text) {
+    const pattern = new RegExp(parsed.text, "giu");
+    hits = candidates
+      .map((key) => toHit(rows.get(key)!, 0, pattern))
+      .filter((hit) => hit.matches.length > 0)
+      .map((hit) => ({ ...hit, score: hit.matches.length }));
+  } else if (parsed.terms.length === 0) {
+    // Without words, only a title: filter narrows rows down enough to list
+    hits = parsed.title !== undefined ? candidates.map((key) => toHit(rows.get(key)!, 0, null)) : [];
+  } else {
+    const { scores, words } = rankDocs(buildRowIndex(rows), candidates, parsed.terms, options.mode ?? "terms");
+    const highlight = wordsPattern(words);
+    const phrases = phrasePatterns(parsed);
+
+    hits = [...scores]
+      .filter(([key]) => {
+        const text = rows.get(key)!.fields.map((field) => field.value).join("\n");
+        return phrases.every((phrase) => phrase.test(text));
+      })
+      .map(([key, score]) => toHit(rows.get(key)!, score, highlight));
+  }
+
+  hits.sort((a, b) => b.score - a.score);
+  return options.limit ? hits.slice(0, options.limit) : hits;
+}
@@ -0,0 +1,167 @@
+/**
+ * Where lh add and lh new put pages when no workspace is given. In order:
+ * the destination of the current directory (or the closest parent directory
+ * that has one), the one chosen with lh dest set, or one picked
+ * automatically on first use:
+ * - Single workspace: a "CLI Pages" parent page in it
+ * - Otherwise: a "CLI Notes" workspace
+ */
+
+import { dirname, resolve } from "path";
+import { api } from "./api.js";
+import { savePage } from "./files.js";
+import { clearCliConfig, getCliConfig, setCliConfig, type DirectoryDestination } from "./cli-config.js";
+
+export const CLI_PAGES_TITLE = "CLI Pages";
+export const CLI_NOTES_WORKSPACE = "CLI Notes";
+
+export interface Destination {
+  workspaceSlug: string;
+  parentId?: string;
+  parentTitle?: string;
+  // "directory" destinations come with the directory they were set for
+  source: "directory" | "custom" | "automatic";
+  dir?: string;
+}
+
+/**
+ * The directory destination that applies in dir: its own, or the closest
+ * parent directory's
+ */
+export function findDirectoryDestination(dir = process.cwd()): Destination | null {
+  const destinations = getCliConfig().directoryDestinations ?? {};
+
+  for (let current = resolve(dir); ; current = dirname(current)) {
+    const match = destinations[current];
+    if (match) {
+      return {
+        workspaceSlug: match.workspace,
+        parentId: match.parentId,
+        parentTitle: match.parentTitle,
+        source: "directory",
+        dir: current,
+      };
+    }
+    if (dirname(current) === current) return null;
+  }
+}
+
+/**
+ * The destination that applies in the current directory without creating
+ * anything, or null when one hasn't been picked yet
+ */
+export function getConfiguredDestination(): Destination | null {
+  const directory = findDirectoryDestination();
+  if (directory) return directory;
+
+  const cliConfig = getCliConfig();
+  if (!cliConfig.destinationWorkspace) return null;
+
+  return {
+    workspaceSlug: cliConfig.destinationWorkspace,
+    parentId: cliConfig.destinationParentId,
+    parentTitle:
+      cliConfig.destinationParentTitle ?? (cliConfig.destinationType === "parent" ? CLI_PAGES_TITLE : undefined),
+    source: cliConfig.destinationType === "custom" ? "custom" : "automatic",
+  };
+}
+
+/**
+ * Pick a destination from the user's workspaces, creating the "CLI Pages"
+ * page or "CLI Notes" workspace if needed, and remember it
+ */
+async function pickDestination(): Promise<Destination> {
+  const workspaces = await api.getWorkspaces();
+
+  if (workspaces.length === 1) {
+    const ws = workspaces[0];
+    const pages = await api.getPages(ws.slug);
+    let parent = pages.find((p) => p.title === CLI_PAGES_TITLE);
+
+    if (!parent) {
+      parent = await api.createPage(CLI_PAGES_TITLE, "", ws.slug);
+      savePage({ ...parent, workspace_slug: ws.slug });
+    }
+
+    setCliConfig({
+      destinationWorkspace: ws.slug,
+      destinationParentId: parent.id,
+      destinationType: "parent",
+    });
+    return { workspaceSlug: ws.slug, parentId: parent.id, parentTitle: CLI_PAGES_TITLE, source: "automatic" };
+  }
+
+  const ws =
+    workspaces.find((w) => w.name === CLI_NOTES_WORKSPACE || w.slug === "cli-notes") ??
+    (await api.createWorkspace(CLI_NOTES_WORKSPACE));
+
+  setCliConfig({
+    destinationWorkspace: ws.slug,
+    destinationType: "workspace",
+  });
+  return { workspaceSlug: ws.slug, source: "automatic" };
+}
+
+/**
+ * Get the destination for CLI pages, picking one on first use
+ */
+export async function getCliDestination(): Promise<Destination> {
+  return getConfiguredDestination() ?? pickDestination();
+}
+
+/**
+ * Run an action against the CLI destination. An automatically picked
+ * destination whose workspace no longer exists is picked again once; ones
+ * the user chose are reported instead.
+ */
+export async function withDestination<T>(action: (dest: Destination) => Promise<T>): Promise<T> {
+  const dest = await getCliDestination();
+  try {
+    return await action(dest);
+  } catch (error) {
+    if (!(error instanceof Error && error.message.includes("Workspace not found"))) throw error;
+
+    if (dest.source !== "automatic") {
+      throw new Error(
+        `Capture destination ${formatDestination(dest)} no longer exists. Change it with 'lh dest set' or 'lh dest reset'.`
+      );
+    }
+    clearCliConfig();
+    return action(await pickDestination());
+  }
+}
+
+export function formatDestination(dest: Destination): string {
+  return dest.parentTitle || dest.parentId
+    ? `${dest.workspaceSlug}/${dest.parentTitle ?? dest.parentId}`
+    : dest.workspaceSlug;
+}
+
+/**
+ * Resolve "<workspace>[/<parent page>]" against LumifyHub. The workspace is
+ * a slug or name; the parent page a slug or title.
+ */
+export async function resolveDestinationSpec(spec: string): Promise<DirectoryDestination> {
+  const at = spec.indexOf("/");
+  const wsRef = (at === -1 ? spec : spec.slice(0, at)).trim();
+  const parentRef = at === -1 ? "" : spec.slice(at + 1).trim();
+
+  const workspaces = await api.getWorkspaces();
+  const ws = workspaces.find((w) => w.slug === wsRef) ?? workspaces.find((w) => w.name.toLowerCase() === wsRef.toLowerCase());
+  if (!ws) {
+    throw new Error(`Workspace not found: ${wsRef}. Run 'lh workspaces' to list yours.`);
+  }
+  if (!parentRef) return { workspace: ws.slug };
+
+  const pages = await api.getPages(ws.slug);
+  const bySlug = pages.filter((p) => p.slug === parentRef);
+  const matches = bySlug.length > 0 ? bySlug : pages.filter((p) => p.title.toLowerCase() === parentRef.toLowerCase());
+
+  if (matches.length === 0) {
+    throw new Error(`Page not found in ${ws.slug}: ${parentRef}`);
+  }
+  if (matches.length > 1) {
+    throw new Error(`"${parentRef}" matches more than one page in ${ws.slug}: ${matches.map((p) => p.slug).join(", ")}`);
+  }
+  return { workspace: ws.slug, parentId: matches[0].id, parentTitle: matches[0].title };
+}
@@ -0,0 +1,189 @@
+/**
+ * Line-based diff primitives shared by merge and diff output.
+ */
+
+// Edit distance above which we give up looking for matches in the
+// changed region and treat it as a wholesale replacement.
+const MAX_EDIT_DISTANCE = 4000;
+
+/**
+ * Split text into lines, normalizing Windows line endings
+ */
+export function splitLines(text: string): string[] {
+  if (text === "") return [];
+  return text.replace(/\r\n/g, "\n").split("\n");
+}
+
+/**
+ * Find the longest common subsequence of two line arrays (Myers' O(ND)
+ * algorithm). Returns matched [aIndex, bIndex] pairs in ascending order.
+ */
+export function matchLines(a: string[], b: string[]): Array<[number, number]> {
+  const pairs: Array<[number, number]> = [];
+
+  // Common prefix and suffix are cheap to match directly
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    pairs.push([start, start]);
+    start++;
+  }
+
+  let endA = a.length;
+  let endB = b.length;
+  const suffix: Array<[number, number]> = [];
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+    suffix.unshift([endA, endB]);
+  }
+
+  for (const [x, y] of myers(a.slice(start, endA), b.slice(start, endB))) {
+    pairs.push([x + start, y + start]);
+  }
+
+  return pairs.concat(suffix);
+}
+
+function myers(a: string[], b: string[]): Array<[number, number]> {
+  const n = a.length;
+  const m = b.length;
+  if (n === 0 || m === 0) return [];
+
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds v[-d..d] as it was before step d
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x: number;
+      if (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) {
+        x = v[offset + k + 1];
+      } else {
+        x = v[offset + k - 1] + 1;
+      }
+      let y = x - k;
+
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(trace, n, m);
+      }
+    }
+  }
+
+  // Too different to be worth diffing line by line
+  return [];
+}
+
+function backtrack(trace: Int32Array[], n: number, m: number): Array<[number, number]> {
+  const pairs: Array<[number, number]> = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const prev = trace[d];
+    // prev covers k in [-d, d]; index with k + d
+    const at = (k: number) => (k < -d || k > d ? -1 : prev[k + d]);
+    const k = x - y;
+
+    let prevK: number;
+    if (k === -d || (k !== d && at(k - 1) < at(k + 1))) {
+      prevK = k + 1;
+    } else {
+      prevK = k - 1;
+    }
+
+    const prevX = d === 0 ? 0 : at(prevK);
+    const prevY = d === 0 ? 0 : prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      x--;
+      y--;
+      pairs.push([x, y]);
+    }
+
+    x = prevX;
+    y = prevY;
+  }
+
+  return pairs.reverse();
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  // Lines prefixed with " ", "-" or "+"
+  lines: string[];
+}
+
+/**
+ * Compute unified-diff hunks between two texts, with `context` unchanged
+ * lines around each change. Line numbers are 1-based.
+ */
+export function diffHunks(oldText: string, newText: string, context = 3): DiffHunk[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  // Flatten into a single edit script
+  const ops: Array<{ op: " " | "-" | "+"; text: string; oldIndex: number; newIndex: number }> = [];
+  let i = 0;
+  let j = 0;
+  for (const [x, y] of [...matchLines(a, b), [a.length, b.length] as [number, number]]) {
+    for (; i < x; i++) ops.push({ op: "-", text: a[i], oldIndex: i, newIndex: j });
+    for (; j < y; j++) ops.push({ op: "+", text: b[j], oldIndex: i, newIndex: j });
+    if (x < a.length) ops.push({ op: " ", text: a[x], oldIndex: x, newIndex: y });
+    i = x + 1;
+    j = y + 1;
+  }
+
+  const hunks: DiffHunk[] = [];
+  let index = 0;
+  while (index < ops.length) {
+    // Find the next change
+    while (index < ops.length && ops[index].op === " ") index++;
+    if (index >= ops.length) break;
+
+    const start = Math.max(0, index - context);
+    let end = index;
+    // Extend while the gap to the next change is small enough to share context
+    while (end < ops.length) {
+      if (ops[end].op !== " ") {
+        end++;
+        continue;
+      }
+      let next = end;
+      while (next < ops.length && ops[next].op === " ") next++;
+      if (next < ops.length && next - end <= context * 2) {
+        end = next;
+      } else {
+        end = Math.min(ops.length, end + context);
+        break;
+      }
+    }
+
+    const slice = ops.slice(start, end);
+    const oldLines = slice.filter((line) => line.op !== "+").length;
+    const newLines = slice.filter((line) => line.op !== "-").length;
+    hunks.push({
+      // Empty ranges start at the line before, as in diff -u
+      oldStart: slice[0].oldIndex + (oldLines > 0 ? 1 : 0),
+      oldLines,
+      newStart: slice[0].newIndex + (newLines > 0 ? 1 : 0),
+      newLines,
+      lines: slice.map((line) => line.op + line.text),
+    });
+    index = end;
+  }
+
+  return hunks;
+}
@@ -1,10 +1,43 @@
 import { createHash } from "crypto";
-import { existsSync, mkdirSync, readFileSync, writeFileSync, readdirSync, statSync } from "fs";
-import { dirname, join } from "path";
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  writeFileSync,
+  readdirSync,
+  statSync,
+  renameSync,
+  rmdirSync,
+  unlinkSync,
+} from "fs";
+import { basename, dirname, join, relative, resolve, sep } from "path";
 import matter from "gray-matter";
 import { getConfig } from "./config.js";
+import { hasConflictMarkers } from "./merge.js";
+import { rebaseLocalLinks, toLocalContent, toRemoteContent } from "./content.js";
+import {
+  findLinkTargets,
+  isLocalTarget,
+  mapOutsideCode,
+  parseFrontmatter,
+  resolveLocalTarget,
+  rewriteLinkTargets,
+} from "./markdown.js";
+import { ASSETS_DIR } from "./assets.js";
+import { TEMPLATES_DIR } from "./templates.js";
+import {
+  getChildPageIds,
+  getSyncDir,
+  getSyncedPages,
+  hasSyncState,
+  isSidecarMode,
+  recordSyncedPage,
+} from "./sync-state.js";
+import { indexPage, removeFromIndex } from "./search-index.js";
 import type { Page, PageMeta, SyncStatus } from "../types/index.js";
 
+export type LocalPage = { path: string; meta: PageMeta; content: string };
+
 export function hashContent(content: string): string {
   return createHash("sha256").update(content).digest("hex").slice(0, 16);
 }
@@ -15,15 +48,330 @@ export function ensureDir(dir: string): void {
   }
 }
 
-export function getPagePath(workspaceSlug: string, pageSlug: string): string {
+// Pages with children are stored as <slug>/index.md next to their children
+const INDEX_FILE = "index.md";
+
+interface PageLocation {
+  id: string;
+  slug: string;
+  workspace_slug: string;
+  parent_id?: string | null;
+}
+
+function toPosixPath(path: string): string {
+  return path.split(sep).join("/");
+}
+
+/**
+ * Page slug implied by a path: <slug>.md or <slug>/index.md
+ */
+function slugFromPath(path: string): string {
+  return basename(path) === INDEX_FILE ? basename(dirname(path)) : basename(path, ".md");
+}
+
+/**
+ * Directory (relative to the pages directory) holding a page's children
+ */
+function getChildrenDir(pagePath: string): string {
+  return basename(pagePath) === INDEX_FILE ? dirname(pagePath) : pagePath.replace(/\.md$/, "");
+}
+
+/**
+ * Local path for a page, mirroring the page hierarchy:
+ * <workspace>/<parent-slug>/<child-slug>.md. Parents are looked up in the
+ * sync-state index, so they need to be saved before their children.
+ */
+export function getPagePath(page: PageLocation): string {
+  const config = getConfig();
+  const parent = page.parent_id ? getSyncedPages()[page.parent_id] : undefined;
+
+  const dir =
+    parent && parent.workspace_slug === page.workspace_slug
+      ? join(config.pagesDir, getChildrenDir(parent.path))
+      : join(config.pagesDir, page.workspace_slug);
+
+  return getChildPageIds(page.id).length > 0
+    ? join(dir, page.slug, INDEX_FILE)
+    : join(dir, `${page.slug}.md`);
+}
+
+/**
+ * Where a page currently lives locally: its tracked file if it still
+ * exists, otherwise where it would be written.
+ */
+export function getLocalPagePath(page: PageLocation): string {
+  const config = getConfig();
+  const entry = getSyncedPages()[page.id];
+  if (entry) {
+    const trackedPath = join(config.pagesDir, entry.path);
+    if (existsSync(trackedPath)) return trackedPath;
+  }
+  return getPagePath(page);
+}
+
+/**
+ * Find the synced page whose folder a file lives in, i.e. its parent
+ */
+export function findParentPageId(pagePath: string): string | undefined {
+  const config = getConfig();
+  const dir = toPosixPath(relative(config.pagesDir, dirname(pagePath)));
+
+  for (const [id, entry] of Object.entries(getSyncedPages())) {
+    if (getChildrenDir(entry.path) === dir) return id;
+  }
+  return undefined;
+}
+
+/**
+ * Remove directories left empty after a page moved, up to the workspace
+ */
+function removeEmptyDirs(dir: string): void {
+  const config = getConfig();
+  while (relative(config.pagesDir, dir).split(sep).length > 1) {
+    if (!existsSync(dir) || readdirSync(dir).length > 0) return;
+    rmdirSync(dir);
+    dir = dirname(dir);
+  }
+}
+
+/**
+ * Move a synced page's file, and those of its children, to where the
+ * hierarchy says it belongs - e.g. <slug>.md becomes <slug>/index.md once
+ * the page gains its first child. Children are only visited when the page
+ * itself moved.
+ */
+function relocatePage(pageId: string, visited = new Set<string>()): void {
+  if (visited.has(pageId)) return;
+  visited.add(pageId);
+
   const config = getConfig();
-  return join(config.pagesDir, workspaceSlug, `${pageSlug}.md`);
+  const entry = getSyncedPages()[pageId];
+  if (!entry) return;
+
+  const currentPath = join(config.pagesDir, entry.path);
+  const targetPath = getPagePath({
+    id: pageId,
+    slug: entry.slug ?? slugFromPath(entry.path),
+    workspace_slug: entry.workspace_slug,
+    parent_id: entry.parent_id,
+  });
+
+  if (targetPath === currentPath || !existsSync(currentPath) || existsSync(targetPath)) return;
+
+  ensureDir(dirname(targetPath));
+  renameSync(currentPath, targetPath);
+  removeFromIndex(currentPath);
+  removeEmptyDirs(dirname(currentPath));
+  recordSyncedPage(pageId, targetPath, entry);
+
+  // Relative links are written for the old location
+  const page = readLocalPage(targetPath);
+  if (page) {
+    const content = rebaseLocalLinks(page.content, currentPath, targetPath);
+    if (content !== page.content) writeLocalPage(targetPath, page.meta, content);
+    else indexPage(targetPath, page.meta, content);
+    updatePageIndex(page.meta, targetPath);
+  }
+  // ...and so are links from other pages to this one
+  retargetPageLinks(currentPath, targetPath);
+
+  for (const childId of getChildPageIds(pageId)) {
+    relocatePage(childId, visited);
+  }
+}
+
+// Frontmatter keys managed by the CLI; any other key belongs to the user
+const SYNC_META_KEYS = new Set([
+  "id",
+  "title",
+  "workspace_id",
+  "workspace_slug",
+  "slug",
+  "updated_at",
+  "local_hash",
+  "remote_hash",
+  "parent_id",
+  "conflict",
+  "properties_hash",
+]);
+
+/**
+ * Frontmatter keys added locally - tags, aliases, keys for other tools.
+ * They are kept whenever the CLI rewrites a page.
+ */
+export function getExtraFrontmatter(meta: PageMeta): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(meta).filter(([key]) => !SYNC_META_KEYS.has(key)));
+}
+
+/**
+ * Frontmatter values synced as page properties (the propertyKeys setting)
+ */
+export function getPageProperties(frontmatter: Record<string, unknown>): Record<string, unknown> {
+  const properties: Record<string, unknown> = {};
+  for (const key of getConfig().propertyKeys) {
+    if (frontmatter[key] !== undefined) properties[key] = frontmatter[key];
+  }
+  return properties;
+}
+
+function hashProperties(properties: Record<string, unknown>): string {
+  const entries = Object.keys(properties)
+    .sort()
+    .map((key) => [key, properties[key]]);
+  return hashContent(JSON.stringify(entries));
+}
+
+/**
+ * Add the user's own frontmatter keys to a synced page's metadata. Page
+ * properties from the server replace the keys they are synced to, unless
+ * those keys were edited locally since the last sync - then the local
+ * values win and get pushed.
+ */
+function withExtraFrontmatter(
+  page: Page,
+  frontmatter: PageMeta,
+  extra: Record<string, unknown>,
+  previousHash?: string
+): PageMeta {
+  const keys = getConfig().propertyKeys;
+  if (!page.properties || keys.length === 0) {
+    return { ...frontmatter, ...extra };
+  }
+
+  const remote = getPageProperties(page.properties);
+  const editedLocally = previousHash !== undefined && hashProperties(getPageProperties(extra)) !== previousHash;
+  if (!editedLocally) {
+    extra = { ...extra };
+    for (const key of keys) {
+      if (remote[key] === undefined) delete extra[key];
+      else extra[key] = remote[key];
+    }
+  }
+
+  return { ...frontmatter, properties_hash: hashProperties(remote), ...extra };
 }
 
-export function savePage(page: Page): void {
-  const pagePath = getPagePath(page.workspace_slug, page.slug);
+/**
+ * Write a synced page to its place in the hierarchy, replacing any copy at
+ * its previous location, and update the merge base and sync-state index.
+ * The user's own frontmatter keys are taken from the existing file, or from
+ * extra when given.
+ */
+function writeSyncedPage(
+  page: Page,
+  content: string,
+  syncMeta: PageMeta,
+  extra?: Record<string, unknown>
+): string {
+  const config = getConfig();
+  const previous = getSyncedPages()[page.id];
+  const previousPath = previous ? join(config.pagesDir, previous.path) : null;
+
+  const pagePath = getPagePath(page);
+  // Where other pages' relative links expect this page, if it has moved
+  const linkedPath = previousPath ?? pageIndex?.get(page.id)?.path ?? null;
+
+  const existing = readLocalPage(previousPath ?? pagePath);
+  const frontmatter = withExtraFrontmatter(
+    page,
+    syncMeta,
+    extra ?? (existing ? getExtraFrontmatter(existing.meta) : {}),
+    existing?.meta.properties_hash
+  );
+
+  const localContent = toLocalContent(content, pagePath);
   ensureDir(dirname(pagePath));
+  writeFileSync(pagePath, matter.stringify(localContent, toFileFrontmatter(frontmatter)), "utf-8");
+  indexPage(pagePath, frontmatter, localContent);
+
+  if (previousPath && previousPath !== pagePath && existsSync(previousPath)) {
+    unlinkSync(previousPath);
+    removeFromIndex(previousPath);
+    removeEmptyDirs(dirname(previousPath));
+  }
+
+  saveBaseContent(page.id, page.content);
+  recordSyncedPage(page.id, pagePath, frontmatter);
+  updatePageIndex(frontmatter, pagePath);
+  if (linkedPath) retargetPageLinks(linkedPath, pagePath);
+
+  // The parent may need to become <slug>/index.md, and children follow us
+  if (page.parent_id) relocatePage(page.parent_id);
+  if (previousPath !== pagePath) {
+    for (const childId of getChildPageIds(page.id)) {
+      relocatePage(childId);
+    }
+  }
+
+  return pagePath;
+}
+
+function getBasePath(pageId: string): string {
+  return join(getSyncDir(), "base", `${pageId}.md`);
+}
+
+/**
+ * Remember the last-synced content of a page, used as the merge base
+ */
+export function saveBaseContent(pageId: string, content: string): void {
+  const basePath = getBasePath(pageId);
+  ensureDir(dirname(basePath));
+  writeFileSync(basePath, content, "utf-8");
+}
+
+/**
+ * Read the last-synced content of a page. Returns null when no base is
+ * stored or it doesn't match the hash recorded in the page's metadata,
+ * when one is given.
+ */
+export function readBaseContent(pageId: string, expectedHash?: string): string | null {
+  const basePath = getBasePath(pageId);
+  if (!existsSync(basePath)) {
+    return null;
+  }
+
+  const content = readFileSync(basePath, "utf-8");
+  return expectedHash === undefined || hashContent(content) === expectedHash ? content : null;
+}
+
+/**
+ * Write a page pulled from or pushed to LumifyHub. remoteHash is the hash
+ * reported by the server's hash endpoint, when known. extra carries the
+ * user's own frontmatter keys over from a file the page didn't sync from.
+ * Returns the path the page was written to.
+ */
+export function savePage(page: Page, remoteHash?: string, extra?: Record<string, unknown>): string {
+  page = { ...page, content: normalizePageUrls(page.content) };
+  const contentHash = hashContent(page.content);
+
+  const frontmatter: PageMeta = {
+    id: page.id,
+    title: page.title,
+    workspace_id: page.workspace_id,
+    workspace_slug: page.workspace_slug,
+    slug: page.slug,
+    updated_at: page.updated_at,
+    local_hash: contentHash,
+    remote_hash: remoteHash ?? contentHash,
+  };
+  if (page.parent_id) {
+    frontmatter.parent_id = page.parent_id;
+  }
 
+  return writeSyncedPage(page, page.content, frontmatter, extra);
+}
+
+/**
+ * Write the result of a three-way merge. The remote page becomes the new
+ * base, so the merged content shows up as a local modification to push.
+ */
+export function saveMergedPage(
+  page: Page,
+  mergedContent: string,
+  hasConflicts: boolean,
+  remoteHash?: string
+): string {
+  page = { ...page, content: normalizePageUrls(page.content) };
   const contentHash = hashContent(page.content);
 
   const frontmatter: PageMeta = {
@@ -34,11 +382,66 @@ export function savePage(page: Page): void {
     slug: page.slug,
     updated_at: page.updated_at,
     local_hash: contentHash,
-    remote_hash: contentHash,
+    remote_hash: remoteHash ?? contentHash,
   };
+  if (page.parent_id) {
+    frontmatter.parent_id = page.parent_id;
+  }
+  if (hasConflicts) {
+    frontmatter.conflict = true;
+  }
+
+  return writeSyncedPage(page, mergedContent, frontmatter);
+}
+
+/**
+ * The frontmatter written to a page's file. In sidecar mode, synced pages
+ * keep only id, title and the user's own keys; the rest lives in the
+ * sync-state index.
+ */
+function toFileFrontmatter(meta: PageMeta): object {
+  if (!meta.id || !isSidecarMode()) return meta;
+  return { id: meta.id, title: meta.title, ...getExtraFrontmatter(meta) };
+}
+
+/**
+ * Rewrite a local page's frontmatter without touching its content
+ */
+export function writeLocalPage(pagePath: string, meta: PageMeta, content: string): void {
+  ensureDir(dirname(pagePath));
+  writeFileSync(pagePath, matter.stringify(content, toFileFrontmatter(meta)), "utf-8");
+  indexPage(pagePath, meta, content);
+  if (meta.id && meta.workspace_slug && isSidecarMode()) {
+    recordSyncedPage(meta.id, pagePath, meta);
+  }
+  updatePageIndex(meta, pagePath);
+}
 
-  const fileContent = matter.stringify(page.content, frontmatter);
-  writeFileSync(pagePath, fileContent, "utf-8");
+/**
+ * Workspace slug of a page file, taken from its top-level directory
+ */
+export function getWorkspaceFromPath(pagePath: string): string {
+  const config = getConfig();
+  return relative(config.pagesDir, pagePath).split(sep)[0];
+}
+
+/**
+ * Move a local page into the recoverable .trash/ area of the pages
+ * directory, keeping its relative path. Returns the new location.
+ */
+export function trashPage(pagePath: string): string {
+  const config = getConfig();
+  let trashPath = join(config.pagesDir, ".trash", relative(config.pagesDir, pagePath));
+
+  if (existsSync(trashPath)) {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+    trashPath = trashPath.replace(/\.md$/, `.${timestamp}.md`);
+  }
+
+  ensureDir(dirname(trashPath));
+  renameSync(pagePath, trashPath);
+  removeFromIndex(pagePath);
+  return trashPath;
 }
 
 export function readLocalPage(pagePath: string): { meta: PageMeta; content: string } | null {
@@ -47,54 +450,149 @@ export function readLocalPage(pagePath: string): { meta: PageMeta; content: stri
   }
 
   const fileContent = readFileSync(pagePath, "utf-8");
-  const { data, content } = matter(fileContent);
+  const { data, content } = parseFrontmatter(fileContent);
+
+  // In sidecar mode the sync metadata comes from the index
+  let meta = data as PageMeta;
+  const entry = meta.id && isSidecarMode() ? getSyncedPages()[meta.id] : undefined;
+  if (entry) {
+    const { path: _path, ...synced } = entry;
+    meta = { id: meta.id, title: meta.title, ...synced, ...getExtraFrontmatter(meta) } as PageMeta;
+  }
 
   return {
-    meta: data as PageMeta,
+    meta,
     content: content.trim(),
   };
 }
 
-export function getAllLocalPages(): Array<{ path: string; meta: PageMeta; content: string }> {
+/**
+ * Determine the sync state of a local page from its content and metadata.
+ * Pages written by a conflicting merge stay in "conflict" until every
+ * conflict marker has been resolved.
+ */
+export function getPageSyncState(page: LocalPage): SyncStatus["status"] {
+  if (!page.meta.id) return "new";
+  if (page.meta.conflict && hasConflictMarkers(page.content)) return "conflict";
+  const remoteContent = toRemoteContent(page.content, page.path);
+  if (hashContent(remoteContent) !== page.meta.local_hash) return "modified";
+
+  // Frontmatter keys synced as page properties were edited
+  const { properties_hash } = page.meta;
+  if (properties_hash && getConfig().propertyKeys.length > 0) {
+    const properties = getPageProperties(getExtraFrontmatter(page.meta));
+    if (hashProperties(properties) !== properties_hash) return "modified";
+  }
+  return "synced";
+}
+
+function collectPageFiles(dir: string, paths: string[]): void {
+  for (const entry of readdirSync(dir)) {
+    // Skip hidden directories and downloaded attachments
+    if (entry.startsWith(".") || entry === ASSETS_DIR) continue;
+
+    const entryPath = join(dir, entry);
+    if (statSync(entryPath).isDirectory()) {
+      collectPageFiles(entryPath, paths);
+      continue;
+    }
+    if (entry.endsWith(".md")) paths.push(entryPath);
+  }
+}
+
+/**
+ * Paths of all local page files, without reading them
+ */
+export function listLocalPageFiles(): string[] {
   const config = getConfig();
-  const pages: Array<{ path: string; meta: PageMeta; content: string }> = [];
+  const paths: string[] = [];
 
   if (!existsSync(config.pagesDir)) {
-    return pages;
+    return paths;
   }
 
   const workspaces = readdirSync(config.pagesDir);
 
   for (const workspace of workspaces) {
+    // Skip .git, .lumifyhub and other hidden directories, and _templates
+    if (workspace.startsWith(".") || workspace === TEMPLATES_DIR) continue;
+
     const workspacePath = join(config.pagesDir, workspace);
     if (!statSync(workspacePath).isDirectory()) continue;
 
-    const files = readdirSync(workspacePath);
-    for (const file of files) {
-      if (!file.endsWith(".md")) continue;
+    collectPageFiles(workspacePath, paths);
+  }
 
-      const pagePath = join(workspacePath, file);
-      const page = readLocalPage(pagePath);
-      if (page) {
-        pages.push({ path: pagePath, ...page });
-      }
+  return paths;
+}
+
+/**
+ * Read every local page without refreshing the link index
+ */
+function readAllPages(): LocalPage[] {
+  const pages: LocalPage[] = [];
+  for (const path of listLocalPageFiles()) {
+    const page = readLocalPage(path);
+    if (page) {
+      pages.push({ path, ...page });
     }
   }
+  return pages;
+}
+
+export function getAllLocalPages(): LocalPage[] {
+  const pages = readAllPages();
+  indexPages(pages);
 
+  // Mirrors synced before the index existed start tracking every page,
+  // so pages deleted before their next pull are still noticed
+  if (!hasSyncState()) {
+    for (const page of pages) {
+      if (page.meta.id) recordSyncedPage(page.meta.id, page.path, page.meta);
+    }
+  }
   return pages;
 }
 
+/**
+ * Find a local page by file path (absolute, relative to the current
+ * directory or to the pages directory), page id, slug or workspace/slug
+ */
+export function findLocalPage(ref: string): LocalPage | null {
+  const config = getConfig();
+
+  for (const candidate of [resolve(ref), join(config.pagesDir, ref)]) {
+    for (const path of [candidate, `${candidate}.md`]) {
+      if (existsSync(path) && statSync(path).isFile()) {
+        const page = readLocalPage(path);
+        return page ? { path, ...page } : null;
+      }
+    }
+  }
+
+  const matches = getAllLocalPages().filter(
+    (page) =>
+      page.meta.id === ref ||
+      page.meta.slug === ref ||
+      `${page.meta.workspace_slug}/${page.meta.slug}` === ref
+  );
+
+  if (matches.length > 1) {
+    const options = matches.map((page) => `${page.meta.workspace_slug}/${page.meta.slug}`).join(", ");
+    throw new Error(`"${ref}" matches more than one page: ${options}`);
+  }
+
+  return matches[0] ?? null;
+}
+
 export function getLocalChanges(): SyncStatus[] {
   const pages = getAllLocalPages();
   const statuses: SyncStatus[] = [];
 
   for (const page of pages) {
-    const currentHash = hashContent(page.content);
-    const isModified = currentHash !== page.meta.local_hash;
-
     statuses.push({
       path: page.path,
-      status: isModified ? "modified" : "synced",
+      status: getPageSyncState(page),
       localUpdatedAt: page.meta.updated_at,
     });
   }
@@ -102,46 +600,285 @@ export function getLocalChanges(): SyncStatus[] {
   return statuses;
 }
 
-export function searchPages(query: string, workspaceSlug?: string): Array<{
-  path: string;
+// [[Title]], [[workspace/slug]] or [[target|label]], but not ![[embeds]]
+// or \[[escaped]] ones
+export const WIKI_LINK = /(?<![!\\])\[\[([^[\]|\n]+)(?:\|([^[\]\n]+))?\]\]/g;
+// Wiki link syntax with the backslashes in front of it. LumifyHub has no
+// wiki links, so [[...]] in remote content is text; locally it is escaped
+// with one more backslash when it would otherwise turn into a link.
+const WIKI_LINK_SYNTAX = /(?<!!)(\\*)(\[\[([^[\]|\n]+)(?:\|([^[\]\n]+))?\]\])/g;
+// [label](target), for finding links to page URLs
+const MARKDOWN_LINK = /\[([^\]\n]*)\]\(([^()\s]+)\)/g;
+
+export interface WikiLink {
+  target: string;
+  label?: string;
+}
+
+interface IndexedPage {
+  id: string;
   title: string;
-  workspace: string;
-  matches: string[];
-}> {
-  const pages = getAllLocalPages();
-  const results: Array<{
-    path: string;
-    title: string;
-    workspace: string;
-    matches: string[];
-  }> = [];
+  workspace_slug: string;
+  slug: string;
+  path: string;
+}
 
-  const lowerQuery = query.toLowerCase();
+// Title/slug lookup for link resolution, refreshed by getAllLocalPages
+let pageIndex: Map<string, IndexedPage> | null = null;
 
+function indexPages(pages: LocalPage[]): void {
+  pageIndex = new Map();
   for (const page of pages) {
-    if (workspaceSlug && page.meta.workspace_slug !== workspaceSlug) {
-      continue;
-    }
+    updatePageIndex(page.meta, page.path);
+  }
+}
 
-    const titleMatch = page.meta.title.toLowerCase().includes(lowerQuery);
-    const contentMatches: string[] = [];
+function updatePageIndex(
+  meta: Pick<PageMeta, "id" | "title" | "workspace_slug" | "slug">,
+  pagePath: string
+): void {
+  if (!pageIndex || !meta.id) return;
+  pageIndex.set(meta.id, {
+    id: meta.id,
+    title: meta.title,
+    workspace_slug: meta.workspace_slug,
+    slug: meta.slug,
+    path: pagePath,
+  });
+}
 
-    const lines = page.content.split("\n");
-    for (const line of lines) {
-      if (line.toLowerCase().includes(lowerQuery)) {
-        contentMatches.push(line.trim().slice(0, 100));
-      }
+/**
+ * Make pages about to be pulled resolvable as link targets, so links between
+ * pages pulled together become wiki links right away
+ */
+export function indexRemotePages(pages: Page[]): void {
+  getPageIndex();
+  for (const page of pages) {
+    updatePageIndex(page, getLocalPagePath(page));
+  }
+}
+
+function getPageIndex(): Map<string, IndexedPage> {
+  if (!pageIndex) getAllLocalPages();
+  return pageIndex!;
+}
+
+/**
+ * Find the [[wiki links]] in a page, ignoring code
+ */
+export function parseWikiLinks(content: string): WikiLink[] {
+  const links: WikiLink[] = [];
+  mapOutsideCode(content, (text) => {
+    for (const match of text.matchAll(WIKI_LINK)) {
+      links.push({ target: match[1].trim(), label: match[2]?.trim() });
     }
+    return text;
+  });
+  return links;
+}
+
+/**
+ * Resolve a wiki link target - workspace/slug, title or slug - to a local
+ * page. Pages in the linking page's workspace win; ambiguous titles don't
+ * resolve.
+ */
+export function resolveWikiLink(target: string, fromWorkspace: string): IndexedPage | null {
+  const pages = [...getPageIndex().values()];
+
+  const slash = target.lastIndexOf("/");
+  if (slash > 0) {
+    const workspace = target.slice(0, slash);
+    const slug = target.slice(slash + 1);
+    const exact = pages.find((page) => page.workspace_slug === workspace && page.slug === slug);
+    if (exact) return exact;
+  }
+
+  const lower = target.toLowerCase();
+  for (const matches of [
+    pages.filter((page) => page.title.toLowerCase() === lower),
+    pages.filter((page) => page.slug === target),
+  ]) {
+    const local = matches.filter((page) => page.workspace_slug === fromWorkspace);
+    if (local.length === 1) return local[0];
+    if (local.length === 0 && matches.length === 1) return matches[0];
+  }
+
+  return null;
+}
+
+/**
+ * Turn [[wiki links]] into links to page URLs, and unescape \\[[...]] that
+ * was wiki link syntax in the remote content. Links that don't resolve to a
+ * local page are left as they are.
+ */
+export function wikiLinksToRemote(content: string, pagePath: string): string {
+  const workspace = getWorkspaceFromPath(pagePath);
+
+  return mapOutsideCode(content, (text) =>
+    text.replace(WIKI_LINK_SYNTAX, (match, slashes: string, link: string, target: string, label?: string) => {
+      const page = resolveWikiLink(target.trim(), workspace);
+      if (!page) return match;
+      if (slashes) return slashes.slice(1) + link;
+      return `[${(label ?? target).trim()}](${getPageUrl(page.id)})`;
+    })
+  );
+}
+
+/**
+ * Turn links to mirrored pages labelled with the page's title (or
+ * workspace/slug) into [[wiki links]], the reverse of wikiLinksToRemote.
+ * Wiki link syntax that is text in the remote content gets escaped, so it
+ * doesn't become a link on the next push.
+ */
+export function wikiLinksToLocal(content: string, pagePath: string): string {
+  const workspace = getWorkspaceFromPath(pagePath);
+  const index = getPageIndex();
+  const urlPrefix = getPageUrl("");
+
+  return mapOutsideCode(content, (text) =>
+    text
+      .replace(WIKI_LINK_SYNTAX, (match, _slashes: string, _link: string, target: string) =>
+        resolveWikiLink(target.trim(), workspace) ? `\\${match}` : match
+      )
+      .replace(MARKDOWN_LINK, (match, label: string, url: string) => {
+        if (!url.startsWith(urlPrefix)) return match;
+        const id = url.slice(urlPrefix.length);
+        const page = index.get(id);
+        if (!page || !label) return match;
+
+        const qualified = `${page.workspace_slug}/${page.slug}`;
+        if (label !== page.title && label !== qualified) return match;
+
+        return resolveWikiLink(label, workspace)?.id === id ? `[[${label}]]` : `[[${qualified}|${label}]]`;
+      })
+  );
+}
+
+/**
+ * Canonical web address of a page, as written into remote content
+ */
+export function getPageUrl(pageId: string): string {
+  return `${new URL(getConfig().apiUrl).origin}/p/${pageId}`;
+}
+
+/**
+ * The locally mirrored page a LumifyHub page URL points to. The id is either
+ * a path segment after /p/ or the end of one (slug-<id> style URLs).
+ */
+function resolvePageUrl(target: string): { page: IndexedPage; anchor: string } | null {
+  if (!/^https?:\/\//i.test(target)) return null;
+
+  let url: URL;
+  let apiHost: string;
+  try {
+    url = new URL(target);
+    apiHost = new URL(getConfig().apiUrl).hostname.replace(/^www\./, "");
+  } catch {
+    return null;
+  }
+
+  const host = url.hostname.replace(/^www\./, "");
+  if (host !== apiHost && host !== "lumifyhub.io" && !host.endsWith(".lumifyhub.io")) return null;
+
+  const segments = url.pathname.split("/").filter(Boolean);
+  if (segments[0] !== "p") return null;
+
+  const index = getPageIndex();
+  for (const segment of segments.slice(1).reverse()) {
+    const page =
+      index.get(segment) ?? [...index.values()].find((candidate) => segment.endsWith(`-${candidate.id}`));
+    if (page) return { page, anchor: url.hash };
+  }
+  return null;
+}
+
+/**
+ * Rewrite links to mirrored pages to their canonical URL, so content pulled
+ * with other URL forms round-trips through relative links unchanged
+ */
+export function normalizePageUrls(content: string): string {
+  return rewriteLinkTargets(content, (target, kind) => {
+    if (kind !== "link") return null;
+    const resolved = resolvePageUrl(target);
+    return resolved ? getPageUrl(resolved.page.id) + resolved.anchor : null;
+  });
+}
+
+/**
+ * Turn links to locally mirrored pages into relative links to their files
+ */
+export function pageUrlsToLocal(content: string, pagePath: string): string {
+  return rewriteLinkTargets(content, (target, kind) => {
+    if (kind !== "link") return null;
+    const resolved = resolvePageUrl(target);
+    if (!resolved) return null;
+    return toPosixPath(relative(dirname(pagePath), resolved.page.path)) + resolved.anchor;
+  });
+}
+
+/**
+ * Turn relative links to synced pages back into their canonical URLs. Links
+ * to files that aren't synced pages keep their path.
+ */
+export function pageUrlsToRemote(content: string, pagePath: string): string {
+  const byPath = new Map([...getPageIndex().values()].map((page) => [page.path, page.id]));
+
+  return rewriteLinkTargets(content, (target, kind) => {
+    if (kind !== "link" || !isLocalTarget(target)) return null;
+    const id = byPath.get(resolveLocalTarget(target, pagePath));
+    if (!id) return null;
+    const anchor = target.includes("#") ? target.slice(target.indexOf("#")) : "";
+    return getPageUrl(id) + anchor;
+  });
+}
+
+/**
+ * Point relative links in every local page at a page file's new location
+ */
+export function retargetPageLinks(fromPath: string, toPath: string): void {
+  if (fromPath === toPath) return;
+
+  for (const page of readAllPages()) {
+    const content = rewriteLinkTargets(page.content, (target, kind) => {
+      if (kind !== "link" || !isLocalTarget(target)) return null;
+      if (resolveLocalTarget(target, page.path) !== fromPath) return null;
+      const anchor = target.includes("#") ? target.slice(target.indexOf("#")) : "";
+      return toPosixPath(relative(dirname(page.path), toPath)) + anchor;
+    });
+    if (content !== page.content) writeLocalPage(page.path, page.meta, content);
+  }
+}
+
+export interface OutgoingLink {
+  // The link as written, e.g. [[Title]]
+  text: string;
+  // Id of the linked page, or null when the link doesn't resolve
+  id: string | null;
+}
+
+/**
+ * List the pages a local page links to, by wiki link, page URL or relative
+ * link to a page file
+ */
+export function getOutgoingLinks(page: LocalPage): OutgoingLink[] {
+  const workspace = getWorkspaceFromPath(page.path);
+  const links: OutgoingLink[] = parseWikiLinks(page.content).map((link) => ({
+    text: `[[${link.label ? `${link.target}|${link.label}` : link.target}]]`,
+    id: resolveWikiLink(link.target, workspace)?.id ?? null,
+  }));
 
-    if (titleMatch || contentMatches.length > 0) {
-      results.push({
-        path: page.path,
-        title: page.meta.title,
-        workspace: page.meta.workspace_slug,
-        matches: contentMatches.slice(0, 3),
-      });
+  // Relative links to page files, and page URLs added since the last pull
+  const byPath = new Map([...getPageIndex().values()].map((indexed) => [indexed.path, indexed.id]));
+  for (const { target, kind } of findLinkTargets(page.content)) {
+    if (kind !== "link") continue;
+    if (isLocalTarget(target)) {
+      if (!target.split("#")[0].endsWith(".md")) continue;
+      links.push({ text: target, id: byPath.get(resolveLocalTarget(target, page.path)) ?? null });
+    } else {
+      const resolved = resolvePageUrl(target);
+      if (resolved) links.push({ text: target, id: resolved.page.id });
     }
   }
 
-  return results;
+  return links;
 }
@@ -1,8 +1,15 @@
-import { execSync } from "child_process";
-import { existsSync } from "fs";
+import { execSync, execFileSync } from "child_process";
+import { existsSync, readFileSync, writeFileSync } from "fs";
 import { join } from "path";
 import { getConfig } from "./config.js";
 
+// CLI bookkeeping that shouldn't end up in page history. The merge bases
+// are versioned with the pages, so undoing a pull restores them too.
+const IGNORED_PATHS = [".lumifyhub/*", "!.lumifyhub/base/", ".trash/"];
+
+// Written by earlier versions; it keeps the merge bases out as well
+const LEGACY_IGNORED_PATHS = [".lumifyhub/"];
+
 function hasGit(): boolean {
   try {
     execSync("git --version", { stdio: "ignore" });
@@ -18,13 +25,32 @@ function isGitRepo(dir: string): boolean {
 
 function runGit(args: string[], cwd: string): boolean {
   try {
-    execSync(`git ${args.join(" ")}`, { cwd, stdio: "ignore" });
+    execFileSync("git", args, { cwd, stdio: "ignore" });
     return true;
   } catch {
     return false;
   }
 }
 
+function ensureGitignore(dir: string): void {
+  const gitignorePath = join(dir, ".gitignore");
+  const existing = existsSync(gitignorePath) ? readFileSync(gitignorePath, "utf-8") : "";
+  const lines = existing.split("\n").map((line) => line.trim());
+
+  const missing = IGNORED_PATHS.filter((path) => !lines.includes(path));
+  const legacy = lines.some((line) => LEGACY_IGNORED_PATHS.includes(line));
+  if (missing.length === 0 && !legacy) return;
+
+  const kept = legacy
+    ? existing
+        .split("\n")
+        .filter((line) => !LEGACY_IGNORED_PATHS.includes(line.trim()))
+        .join("\n")
+    : existing;
+  const prefix = kept && !kept.endsWith("\n") ? "\n" : "";
+  writeFileSync(gitignorePath, kept + prefix + missing.join("\n") + "\n", "utf-8");
+}
+
 export function initGitIfNeeded(): boolean {
   if (!hasGit()) return false;
 
@@ -32,11 +58,12 @@ export function initGitIfNeeded(): boolean {
 
   if (!isGitRepo(pagesDir)) {
     if (!runGit(["init"], pagesDir)) return false;
-    // Create .gitignore for any temp files
     runGit(["config", "user.email", "cli@lumifyhub.io"], pagesDir);
     runGit(["config", "user.name", "LumifyHub CLI"], pagesDir);
   }
 
+  ensureGitignore(pagesDir);
+
   return true;
 }
 
@@ -47,6 +74,10 @@ export function commitChanges(message: string): boolean {
 
   if (!isGitRepo(pagesDir)) return false;
 
+  // Repositories set up by earlier versions start versioning the merge
+  // bases with the first commit, before a pull changes them
+  ensureGitignore(pagesDir);
+
   // Stage all changes
   runGit(["add", "-A"], pagesDir);
 
@@ -62,3 +93,175 @@ export function commitChanges(message: string): boolean {
     return true;
   }
 }
+
+function readGit(args: string[], cwd: string): string | null {
+  try {
+    // Print non-ASCII paths as-is instead of octal-escaped
+    return execFileSync("git", ["-c", "core.quotepath=off", ...args], {
+      cwd,
+      encoding: "utf-8",
+      stdio: ["ignore", "pipe", "ignore"],
+    });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether the pages directory has a git history to read from
+ */
+export function hasHistory(): boolean {
+  const { pagesDir } = getConfig();
+  return hasGit() && isGitRepo(pagesDir) && readGit(["rev-parse", "--verify", "HEAD"], pagesDir) !== null;
+}
+
+export interface Revision {
+  hash: string;
+  date: Date;
+  // Commit message without the timestamp commitChanges appends
+  operation: string;
+  // Path of the file in this revision, relative to the pages directory
+  path: string;
+}
+
+const COMMIT_TIMESTAMP = / - \d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/;
+
+/**
+ * List the commits that changed a file, newest first, following renames
+ */
+export function getFileHistory(relativePath: string): Revision[] {
+  const { pagesDir } = getConfig();
+  const output = readGit(
+    ["log", "--follow", "--name-only", "--format=%x1e%H%x1f%aI%x1f%s", "--", relativePath],
+    pagesDir
+  );
+  if (!output) return [];
+
+  return output
+    .split("\x1e")
+    .filter((record) => record.trim())
+    .map((record) => {
+      const [header, ...files] = record.split("\n");
+      const [hash, date, subject] = header.split("\x1f");
+      return {
+        hash,
+        date: new Date(date),
+        operation: subject.replace(COMMIT_TIMESTAMP, ""),
+        path: files.find((file) => file.trim()) ?? relativePath,
+      };
+    });
+}
+
+/**
+ * Read a file as it was in a given commit
+ */
+export function readFileAtRevision(hash: string, relativePath: string): string | null {
+  const { pagesDir } = getConfig();
+  return readGit(["show", `${hash}:${relativePath}`], pagesDir);
+}
+
+/**
+ * Resolve a revision name (hash, HEAD~2, ...) to a full commit hash
+ */
+export function resolveRevision(rev: string): string | null {
+  const { pagesDir } = getConfig();
+  return readGit(["rev-parse", "--verify", "--quiet", `${rev}^{commit}`], pagesDir)?.trim() || null;
+}
+
+/**
+ * Whether commit `ancestor` is part of the history of `hash`
+ */
+export function isAncestor(ancestor: string, hash: string): boolean {
+  const { pagesDir } = getConfig();
+  return runGit(["merge-base", "--is-ancestor", ancestor, hash], pagesDir);
+}
+
+/**
+ * Subject of a commit, without the timestamp commitChanges appends
+ */
+export function getCommitOperation(rev: string): string | null {
+  const { pagesDir } = getConfig();
+  const subject = readGit(["log", "-1", "--format=%s", rev], pagesDir)?.trim();
+  return subject ? subject.replace(COMMIT_TIMESTAMP, "") : null;
+}
+
+export interface SyncCommit {
+  hash: string;
+  subject: string;
+  kind: "pull" | "push";
+}
+
+/**
+ * Find the most recent page pull or push commit that hasn't been reverted yet
+ */
+export function getLastSyncCommit(): SyncCommit | null {
+  const { pagesDir } = getConfig();
+  const output = readGit(["log", "--format=%x1e%H%x1f%s%x1f%b"], pagesDir);
+  if (!output) return null;
+
+  const reverted = new Set<string>();
+  for (const record of output.split("\x1e").filter((r) => r.trim())) {
+    const [hash, subject, body] = record.split("\x1f");
+    const revert = body?.match(/This reverts commit ([0-9a-f]+)/);
+    if (revert) {
+      reverted.add(revert[1]);
+      continue;
+    }
+    if (reverted.has(hash)) continue;
+
+    if (subject.startsWith("Pull from LumifyHub")) return { hash, subject, kind: "pull" };
+    if (subject.startsWith("Push to LumifyHub")) return { hash, subject, kind: "push" };
+  }
+
+  return null;
+}
+
+export interface FileChange {
+  status: "A" | "M" | "D" | "R";
+  path: string;
+  // Previous path for renames
+  from?: string;
+}
+
+/**
+ * List the files a commit changed, detecting renames
+ */
+export function getCommitChanges(hash: string): FileChange[] {
+  const { pagesDir } = getConfig();
+  const output = readGit(["diff-tree", "--no-commit-id", "--name-status", "-r", "-M", "--root", hash], pagesDir);
+  if (!output) return [];
+
+  return output
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => {
+      const [status, first, second] = line.split("\t");
+      if (status.startsWith("R")) return { status: "R", path: second, from: first };
+      return { status: status[0] as FileChange["status"], path: first };
+    });
+}
+
+/**
+ * Paths with uncommitted changes, relative to the pages directory
+ */
+export function getUncommittedPaths(): string[] {
+  const { pagesDir } = getConfig();
+  const output = readGit(["status", "--porcelain", "--no-renames"], pagesDir);
+  if (!output) return [];
+
+  return output
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => line.slice(3).replace(/^"|"$/g, ""));
+}
+
+/**
+ * Revert a commit with a new commit on top
+ */
+export function revertCommit(hash: string): boolean {
+  const { pagesDir } = getConfig();
+  if (runGit(["revert", "--no-edit", hash], pagesDir)) return true;
+
+  runGit(["revert", "--abort"], pagesDir);
+  return false;
+}
@@ -0,0 +1,427 @@
+/**
+ * Render a workspace from the local mirror as a static HTML site: one file
+ * per page laid out like the pages directory, databases as tables, and a
+ * search index the site can query without a server.
+ */
+
+import { copyFileSync, existsSync, statSync, writeFileSync } from "fs";
+import { basename, dirname, join, relative, sep } from "path";
+import { Marked, type Tokens } from "marked";
+import { getConfig } from "./config.js";
+import { getAllLocalDatabases } from "./db-files.js";
+import {
+  ensureDir,
+  getAllLocalPages,
+  getPageUrl,
+  getWorkspaceFromPath,
+  readLocalPage,
+  resolveWikiLink,
+  WIKI_LINK,
+} from "./files.js";
+import { isLocalTarget, mapOutsideCode, resolveLocalTarget, rewriteLinkTargets } from "./markdown.js";
+import type { DatabaseRow, DatabaseSchema } from "../types/index.js";
+
+// Search entries keep this much of each page's text
+const SEARCH_TEXT_LENGTH = 5000;
+
+// URL schemes links and images may use; relative links have none
+const SAFE_PROTOCOLS = new Set(["http", "https", "mailto", "tel"]);
+
+export interface ExportResult {
+  pages: number;
+  databases: number;
+  assets: number;
+}
+
+interface SitePage {
+  // Source file and its path within the workspace, e.g. guide/index.md
+  path: string;
+  key: string;
+  // Output file relative to the site root, e.g. guide/index.html
+  url: string;
+  title: string;
+  content: string;
+  children: SitePage[];
+}
+
+interface SiteDatabase {
+  url: string;
+  title: string;
+  schema: DatabaseSchema;
+  rows: DatabaseRow[];
+}
+
+interface SearchEntry {
+  title: string;
+  url: string;
+  text: string;
+}
+
+function toPosix(path: string): string {
+  return path.split(sep).join("/");
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Relative href from one site file to another
+ */
+function hrefFrom(fromUrl: string, toUrl: string): string {
+  const href = toPosix(relative(dirname(fromUrl), toUrl)) || basename(toUrl);
+  return encodeURI(href);
+}
+
+function headingId(text: string, used: Map<string, number>): string {
+  const base =
+    text
+      .toLowerCase()
+      .replace(/<[^>]+>/g, "")
+      .replace(/[^\p{L}\p{N}\s-]/gu, "")
+      .trim()
+      .replace(/\s+/g, "-") || "section";
+  const count = used.get(base) ?? 0;
+  used.set(base, count + 1);
+  return count === 0 ? base : `${base}-${count}`;
+}
+
+/**
+ * Parent of a page in the hierarchy: the index.md of the nearest folder
+ * above it
+ */
+function findParentKey(key: string, keys: Set<string>): string | undefined {
+  let dir = basename(key) === "index.md" ? dirname(dirname(key)) : dirname(key);
+  while (dir !== "." && dir !== "") {
+    const candidate = `${dir}/index.md`;
+    if (keys.has(candidate) && candidate !== key) return candidate;
+    dir = dirname(dir);
+  }
+  return undefined;
+}
+
+function sortByTitle<T extends { title: string }>(items: T[]): T[] {
+  return items.sort((a, b) => a.title.localeCompare(b.title));
+}
+
+function loadSitePages(workspaceDir: string, workspace: string): SitePage[] {
+  const pages = getAllLocalPages()
+    .filter((page) => getWorkspaceFromPath(page.path) === workspace)
+    .map((page): SitePage => {
+      const key = toPosix(relative(workspaceDir, page.path));
+      return {
+        path: page.path,
+        key,
+        url: key.replace(/\.md$/, ".html"),
+        title: page.meta.title || basename(key, ".md"),
+        content: page.content,
+        children: [],
+      };
+    });
+
+  // The generated home page takes index.html unless the workspace has its own
+  for (const page of pages) {
+    if (page.key === "index.md") page.url = "home.html";
+  }
+
+  const byKey = new Map(pages.map((page) => [page.key, page]));
+  const keys = new Set(byKey.keys());
+  for (const page of pages) {
+    const parent = findParentKey(page.key, keys);
+    if (parent) byKey.get(parent)!.children.push(page);
+  }
+  for (const page of pages) sortByTitle(page.children);
+
+  return pages;
+}
+
+/**
+ * Rewrite page content so its links work inside the site: wiki links and
+ * links to exported pages point at their .html files, links to pages
+ * outside the export at LumifyHub, and referenced local files are collected
+ * for copying.
+ */
+function prepareContent(
+  page: SitePage,
+  workspace: string,
+  urlsByPath: Map<string, string>,
+  assets: Map<string, string>,
+  workspaceDir: string
+): string {
+  const withWikiLinks = mapOutsideCode(page.content, (text) =>
+    text.replace(WIKI_LINK, (_match, target: string, label?: string) => {
+      const linked = resolveWikiLink(target.trim(), workspace);
+      const text = (label ?? target).trim();
+      if (!linked) return text;
+      const url = urlsByPath.get(linked.path);
+      return `[${text}](<${url ? hrefFrom(page.url, url) : getPageUrl(linked.id)}>)`;
+    })
+  );
+
+  return rewriteLinkTargets(withWikiLinks, (target) => {
+    if (!isLocalTarget(target)) return null;
+
+    const anchor = target.includes("#") ? target.slice(target.indexOf("#")) : "";
+    const absolute = resolveLocalTarget(target, page.path);
+
+    if (absolute.endsWith(".md")) {
+      const url = urlsByPath.get(absolute);
+      if (url) return hrefFrom(page.url, url) + anchor;
+      const id = existsSync(absolute) ? readLocalPage(absolute)?.meta.id : undefined;
+      return id ? getPageUrl(id) + anchor : null;
+    }
+
+    // Other files inside the workspace are copied to the same place
+    const inWorkspace = toPosix(relative(workspaceDir, absolute));
+    if (!inWorkspace.startsWith("..") && existsSync(absolute) && statSync(absolute).isFile()) {
+      assets.set(absolute, inWorkspace);
+    }
+    return null;
+  });
+}
+
+/**
+ * Links and images may only use web and mail protocols, so a page can't
+ * carry javascript: or data: URLs into the site
+ */
+function isSafeUrl(href: string): boolean {
+  // Browsers ignore whitespace and control characters inside the scheme
+  const scheme = href.replace(/[\u0000-\u0020]/g, "").match(/^([a-z][a-z0-9+.-]*):/i)?.[1];
+  return !scheme || SAFE_PROTOCOLS.has(scheme.toLowerCase());
+}
+
+/**
+ * Render page Markdown. Raw HTML is shown as text rather than passed
+ * through, as pages may come from anyone with access to the workspace.
+ */
+function renderMarkdown(content: string): string {
+  const used = new Map<string, number>();
+  const markdown = new Marked({
+    gfm: true,
+    renderer: {
+      heading({ tokens, depth, text }: Tokens.Heading): string {
+        const id = headingId(text, used);
+        return `<h${depth} id="${escapeHtml(id)}">${this.parser.parseInline(tokens)}</h${depth}>\n`;
+      },
+      html({ text }: Tokens.HTML | Tokens.Tag): string {
+        return escapeHtml(text);
+      },
+      link({ href, tokens }: Tokens.Link): string | false {
+        return isSafeUrl(href) ? false : this.parser.parseInline(tokens);
+      },
+      image({ href, text }: Tokens.Image): string | false {
+        return isSafeUrl(href) ? false : escapeHtml(text);
+      },
+    },
+  });
+  return markdown.parse(content, { async: false }) as string;
+}
+
+function plainText(html: string): string {
+  return html
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&(amp|lt|gt|quot|#39);/g, (_match, entity: string) =>
+      ({ amp: "&", lt: "<", gt: ">", quot: '"', "#39": "'" })[entity] ?? ""
+    )
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, SEARCH_TEXT_LENGTH);
+}
+
+function renderNavTree(pages: SitePage[], currentUrl: string): string {
+  if (pages.length === 0) return "";
+  const items = pages.map((page) => {
+    const current = page.url === currentUrl ? ' class="current"' : "";
+    const link = `<a href="${hrefFrom(currentUrl, page.url)}"${current}>${escapeHtml(page.title)}</a>`;
+    return `<li>${link}${renderNavTree(page.children, currentUrl)}</li>`;
+  });
+  return `<ul>${items.join("")}</ul>`;
+}
+
+function renderNav(workspace: string, roots: SitePage[], databases: SiteDatabase[], currentUrl: string): string {
+  const databaseLinks = databases.map((db) => {
+    const current = db.url === currentUrl ? ' class="current"' : "";
+    return `<li><a href="${hrefFrom(currentUrl, db.url)}"${current}>${escapeHtml(db.title)}</a></li>`;
+  });
+
+  return [
+    `<a class="home" href="${hrefFrom(currentUrl, "index.html")}">${escapeHtml(workspace)}</a>`,
+    `<input id="search" type="search" placeholder="Search…" autocomplete="off">`,
+    `<ul id="search-results"></ul>`,
+    renderNavTree(roots, currentUrl),
+    databaseLinks.length > 0 ? `<h2>Databases</h2><ul>${databaseLinks.join("")}</ul>` : "",
+  ].join("\n");
+}
+
+function renderDocument(title: string, workspace: string, nav: string, body: string, url: string): string {
+  const root = hrefFrom(url, "index.html").replace(/index\.html$/, "");
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)} · ${escapeHtml(workspace)}</title>
+<link rel="stylesheet" href="${root}style.css">
+</head>
+<body>
+<nav>
+${nav}
+</nav>
+<main>
+${body}
+</main>
+<script>window.LH_ROOT = ${JSON.stringify(root)};</script>
+<script src="${root}search-index.js"></script>
+<script src="${root}search.js"></script>
+</body>
+</html>
+`;
+}
+
+function renderTable(db: SiteDatabase): string {
+  const properties = [...db.schema.properties].sort((a, b) => a.sort_order - b.sort_order);
+  const header = ["Title", ...properties.map((property) => property.property_name)]
+    .map((name) => `<th>${escapeHtml(name)}</th>`)
+    .join("");
+  const rows = db.rows.map((row) => {
+    const cells = [row._title, ...properties.map((property) => row[property.property_id] ?? "")];
+    return `<tr>${cells.map((cell) => `<td>${escapeHtml(cell)}</td>`).join("")}</tr>`;
+  });
+  return `<table>\n<thead><tr>${header}</tr></thead>\n<tbody>\n${rows.join("\n")}\n</tbody>\n</table>`;
+}
+
+const STYLE = `body { margin: 0; display: flex; font: 16px/1.6 system-ui, sans-serif; color: #1f2328; }
+nav { width: 260px; flex-shrink: 0; height: 100vh; position: sticky; top: 0; overflow-y: auto; padding: 1.5rem 1rem; box-sizing: border-box; background: #f6f8fa; border-right: 1px solid #d0d7de; font-size: 14px; }
+nav ul { list-style: none; margin: 0; padding-left: 1rem; }
+nav > ul { padding-left: 0; }
+nav a { color: inherit; text-decoration: none; }
+nav a:hover, nav a.current { color: #0969da; }
+nav a.current { font-weight: 600; }
+nav h2 { font-size: 12px; text-transform: uppercase; color: #656d76; margin: 1.5rem 0 0.5rem; }
+.home { display: block; font-weight: 700; font-size: 16px; margin-bottom: 1rem; }
+#search { width: 100%; box-sizing: border-box; padding: 0.4rem 0.5rem; margin-bottom: 0.5rem; border: 1px solid #d0d7de; border-radius: 6px; }
+#search-results { padding: 0; margin-bottom: 1rem; }
+#search-results li { margin-bottom: 0.5rem; }
+#search-results small { display: block; color: #656d76; }
+main { flex: 1; min-width: 0; max-width: 860px; padding: 2rem 3rem; }
+img { max-width: 100%; }
+pre { background: #f6f8fa; padding: 1rem; overflow-x: auto; border-radius: 6px; }
+code { font-size: 0.9em; }
+table { border-collapse: collapse; display: block; overflow-x: auto; }
+th, td { border: 1px solid #d0d7de; padding: 0.3rem 0.7rem; text-align: left; vertical-align: top; }
+th { background: #f6f8fa; }
+blockquote { margin: 0; padding-left: 1rem; border-left: 4px solid #d0d7de; color: #656d76; }
+`;
+
+const SEARCH_SCRIPT = `(function () {
+  var input = document.getElementById("search");
+  var list = document.getElementById("search-results");
+  var index = window.LH_SEARCH_INDEX || [];
+
+  function escape(text) {
+    return text.replace(/[&<>"]/g, function (c) {
+      return { "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" }[c];
+    });
+  }
+
+  function excerpt(text, word) {
+    var at = text.toLowerCase().indexOf(word);
+    if (at < 0) return text.slice(0, 100);
+    var start = Math.max(0, at - 40);
+    return (start > 0 ? "…" : "") + text.slice(start, start + 100) + "…";
+  }
+
+  input.addEventListener("input", function () {
+    var words = input.value.toLowerCase().split(/\\s+/).filter(Boolean);
+    list.innerHTML = "";
+    if (words.length === 0) return;
+
+    var hits = index
+      .map(function (entry) {
+        var title = entry.title.toLowerCase();
+        var text = entry.text.toLowerCase();
+        var score = 0;
+        for (var i = 0; i < words.length; i++) {
+          if (title.indexOf(words[i]) >= 0) score += 3;
+          else if (text.indexOf(words[i]) >= 0) score += 1;
+          else return null;
+        }
+        return { entry: entry, score: score };
+      })
+      .filter(Boolean)
+      .sort(function (a, b) { return b.score - a.score; })
+      .slice(0, 20);
+
+    list.innerHTML = hits.length
+      ? hits.map(function (hit) {
+          return '<li><a href="' + window.LH_ROOT + encodeURI(hit.entry.url) + '">' + escape(hit.entry.title) +
+            "</a><small>" + escape(excerpt(hit.entry.text, words[0])) + "</small></li>";
+        }).join("")
+      : "<li><small>No results</small></li>";
+  });
+})();
+`;
+
+/**
+ * Export the local pages and databases of a workspace as a static site in
+ * outDir. Throws when nothing of the workspace has been pulled.
+ */
+export function exportWorkspaceHtml(workspace: string, outDir: string): ExportResult {
+  const workspaceDir = join(getConfig().pagesDir, workspace);
+  const pages = loadSitePages(workspaceDir, workspace);
+  const databases: SiteDatabase[] = sortByTitle(
+    getAllLocalDatabases()
+      .filter((db) => db.workspaceSlug === workspace)
+      .map((db) => ({ url: `databases/${db.dbSlug}.html`, title: db.schema.title, schema: db.schema, rows: db.rows }))
+  );
+
+  if (pages.length === 0 && databases.length === 0) {
+    throw new Error(`No local pages or databases for workspace "${workspace}". Run 'lh pull -w ${workspace}' first.`);
+  }
+
+  const keys = new Set(pages.map((page) => page.key));
+  const roots = sortByTitle(pages.filter((page) => !findParentKey(page.key, keys)));
+  const urlsByPath = new Map(pages.map((page) => [page.path, page.url]));
+  const assets = new Map<string, string>();
+  const searchEntries: SearchEntry[] = [];
+
+  const write = (url: string, html: string) => {
+    const file = join(outDir, url);
+    ensureDir(dirname(file));
+    writeFileSync(file, html);
+  };
+
+  for (const page of pages) {
+    const html = renderMarkdown(prepareContent(page, workspace, urlsByPath, assets, workspaceDir));
+    // Most pages open with their own title; add one where they don't
+    const body = /^<h1[\s>]/.test(html) ? html : `<h1>${escapeHtml(page.title)}</h1>\n${html}`;
+    write(page.url, renderDocument(page.title, workspace, renderNav(workspace, roots, databases, page.url), body, page.url));
+    searchEntries.push({ title: page.title, url: page.url, text: plainText(html) });
+  }
+
+  for (const db of databases) {
+    const body = `<h1>${escapeHtml(db.title)}</h1>\n${renderTable(db)}`;
+    write(db.url, renderDocument(db.title, workspace, renderNav(workspace, roots, databases, db.url), body, db.url));
+    const text = db.rows.map((row) => Object.values(row).filter(Boolean).join(" ")).join(" ");
+    searchEntries.push({ title: db.title, url: db.url, text: text.slice(0, SEARCH_TEXT_LENGTH) });
+  }
+
+  const home = `<h1>${escapeHtml(workspace)}</h1>\n${renderNavTree(roots, "index.html")}`;
+  write("index.html", renderDocument(workspace, workspace, renderNav(workspace, roots, databases, "index.html"), home, "index.html"));
+
+  write("style.css", STYLE);
+  write("search.js", SEARCH_SCRIPT);
+  write("search-index.js", `window.LH_SEARCH_INDEX = ${JSON.stringify(searchEntries)};\n`);
+
+  for (const [source, target] of assets) {
+    const file = join(outDir, target);
+    ensureDir(dirname(file));
+    copyFileSync(source, file);
+  }
+
+  return { pages: pages.length, databases: databases.length, assets: assets.size };
+}
@@ -0,0 +1,332 @@
+/**
+ * Planning and content conversion for lh import: turns a directory of
+ * Markdown files (an Obsidian vault, a Notion export or plain Markdown)
+ * into pages with a parent/child hierarchy, plus databases from Notion CSVs.
+ */
+
+import { createHash } from "crypto";
+import { existsSync, mkdirSync, readdirSync, readFileSync, realpathSync, rmSync, statSync, writeFileSync } from "fs";
+import { basename, dirname, extname, join, relative, resolve, sep } from "path";
+import { importAsset, isInside } from "./assets.js";
+import { parseCsv } from "./db-files.js";
+import { getPageUrl } from "./files.js";
+import { isLocalTarget, mapOutsideCode, parseFrontmatter, resolveLocalTarget, rewriteLinkTargets } from "./markdown.js";
+import { getSyncDir } from "./sync-state.js";
+
+export type ImportFormat = "obsidian" | "notion" | "markdown";
+
+export const IMPORT_FORMATS: ImportFormat[] = ["obsidian", "notion", "markdown"];
+
+// Notion appends a 32 character id to every exported file and folder name
+const NOTION_ID_SUFFIX = /\s+[0-9a-f]{32}$/i;
+
+// ![[file]] embeds and [[note]] links, with optional |alias or |size
+const OBSIDIAN_EMBED = /!\[\[([^[\]|\n]+)(?:\|([^[\]\n]*))?\]\]/g;
+const OBSIDIAN_LINK = /\[\[([^[\]|\n]+)(?:\|([^[\]\n]+))?\]\]/g;
+
+export interface ImportPage {
+  // Path relative to the import directory; folders without a note of
+  // their own become empty pages
+  key: string;
+  title: string;
+  source?: string;
+  parentKey?: string;
+}
+
+export interface ImportDatabase {
+  key: string;
+  title: string;
+  source: string;
+  columns: string[];
+  rows: Record<string, string>[];
+}
+
+export interface ImportPlan {
+  dir: string;
+  format: ImportFormat;
+  // Parents come before their children
+  pages: ImportPage[];
+  databases: ImportDatabase[];
+}
+
+export interface ImportState {
+  dir: string;
+  workspace: string;
+  format: ImportFormat;
+  // Page id per created page, and the keys whose content is uploaded
+  pages: Record<string, string>;
+  written: string[];
+  // Database id and how many of its rows exist, per created database
+  databases: Record<string, { id: string; rowsCreated: number }>;
+}
+
+function toPosix(path: string): string {
+  return path.split(sep).join("/");
+}
+
+function stripExtension(name: string): string {
+  return name.slice(0, name.length - extname(name).length);
+}
+
+function cleanTitle(name: string, format: ImportFormat): string {
+  const title = format === "notion" ? name.replace(NOTION_ID_SUFFIX, "") : name;
+  return title.trim() || name;
+}
+
+function readTitle(sourcePath: string, fallback: string): string {
+  try {
+    const { data } = parseFrontmatter(readFileSync(sourcePath, "utf-8"));
+    return typeof data.title === "string" && data.title.trim() ? data.title.trim() : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Whether a folder holds anything to import, at any depth
+ */
+function hasImportableFiles(dir: string, format: ImportFormat): boolean {
+  return readdirSync(dir).some((name) => {
+    if (name.startsWith(".")) return false;
+    const path = join(dir, name);
+    if (statSync(path).isDirectory()) return hasImportableFiles(path, format);
+    return name.endsWith(".md") || (format === "notion" && name.endsWith(".csv"));
+  });
+}
+
+/**
+ * Walk one directory. Each subfolder becomes a page: its folder note (a
+ * sibling or inner note with the folder's name, or an index.md inside it)
+ * supplies the content, otherwise the page is empty.
+ */
+function scanDir(plan: ImportPlan, dir: string, parentKey: string | undefined, exclude?: string): void {
+  const entries = readdirSync(dir)
+    .filter((name) => !name.startsWith("."))
+    .sort((a, b) => a.localeCompare(b));
+  const isDir = (name: string) => statSync(join(dir, name)).isDirectory();
+
+  const notes = entries.filter((name) => name.endsWith(".md") && name !== exclude && !isDir(name));
+  // Folders of attachments only don't become pages
+  const folders = entries.filter((name) => isDir(name) && hasImportableFiles(join(dir, name), plan.format));
+  const csvs =
+    plan.format === "notion"
+      ? entries.filter(
+          // Notion also writes a _all.csv next to each database CSV
+          (name) => name.endsWith(".csv") && !(name.endsWith("_all.csv") && entries.includes(name.replace(/_all\.csv$/, ".csv")))
+        )
+      : [];
+  const databaseNames = new Set(csvs.map((name) => stripExtension(name).replace(/_all$/, "")));
+  const folderNotes = new Set<string>();
+
+  const addPage = (key: string, name: string, source?: string) => {
+    const fallback = cleanTitle(name, plan.format);
+    plan.pages.push({ key, title: source && plan.format !== "notion" ? readTitle(source, fallback) : fallback, source, parentKey });
+  };
+
+  for (const folder of folders) {
+    // Notion keeps the pages of a database's rows next to its CSV
+    if (databaseNames.has(folder)) continue;
+
+    const folderPath = join(dir, folder);
+    const sibling = notes.find((note) => stripExtension(note) === folder);
+    const inner = ["index.md", `${folder}.md`].find((name) => existsSync(join(folderPath, name)));
+
+    let source: string | undefined;
+    if (sibling) {
+      folderNotes.add(sibling);
+      source = join(dir, sibling);
+    } else if (inner) {
+      source = join(folderPath, inner);
+    }
+
+    const key = toPosix(relative(plan.dir, folderPath));
+    addPage(key, folder, source);
+    scanDir(plan, folderPath, key, sibling ? undefined : inner);
+  }
+
+  for (const note of notes) {
+    if (folderNotes.has(note)) continue;
+    addPage(toPosix(relative(plan.dir, join(dir, note))), stripExtension(note), join(dir, note));
+  }
+
+  for (const csv of csvs) {
+    const source = join(dir, csv);
+    const rows = parseCsv(readFileSync(source, "utf-8"));
+    plan.databases.push({
+      key: toPosix(relative(plan.dir, source)),
+      title: cleanTitle(stripExtension(csv).replace(/_all$/, ""), plan.format),
+      source,
+      // The first column holds the row titles
+      columns: Object.keys(rows[0] ?? {}),
+      rows,
+    });
+  }
+}
+
+/**
+ * Work out which pages and databases an import creates, without touching
+ * LumifyHub
+ */
+export function planImport(dir: string, format: ImportFormat): ImportPlan {
+  const plan: ImportPlan = { dir: resolve(dir), format, pages: [], databases: [] };
+  scanDir(plan, plan.dir, undefined);
+  return plan;
+}
+
+const fileIndexes = new WeakMap<ImportPlan, Map<string, string[]>>();
+
+/**
+ * Files of the import directory by name, for Obsidian's shortest-path links
+ */
+function indexFiles(plan: ImportPlan): Map<string, string[]> {
+  const cached = fileIndexes.get(plan);
+  if (cached) return cached;
+
+  const byName = new Map<string, string[]>();
+  const walk = (dir: string) => {
+    for (const name of readdirSync(dir)) {
+      if (name.startsWith(".")) continue;
+      const path = join(dir, name);
+      if (statSync(path).isDirectory()) {
+        walk(path);
+      } else {
+        const key = name.toLowerCase();
+        byName.set(key, [...(byName.get(key) ?? []), path]);
+      }
+    }
+  };
+  walk(plan.dir);
+  fileIndexes.set(plan, byName);
+  return byName;
+}
+
+/**
+ * Resolve an Obsidian link target - a note name, a path within the vault or
+ * a file name - to a file in the vault
+ */
+function resolveVaultTarget(target: string, plan: ImportPlan, files: Map<string, string[]>): string | null {
+  const name = target.split("#")[0].trim();
+  if (!name) return null;
+
+  for (const candidate of extname(name) ? [name, `${name}.md`] : [`${name}.md`]) {
+    const direct = join(plan.dir, candidate);
+    if (existsSync(direct) && statSync(direct).isFile()) return direct;
+
+    const matches = files.get(basename(candidate).toLowerCase()) ?? [];
+    if (matches.length > 0) return matches[0];
+  }
+  return null;
+}
+
+/**
+ * Page content in LumifyHub's form: links between imported pages become
+ * page links, wiki links and embeds become Markdown, and local images and
+ * files are uploaded. Links to pages that weren't imported are kept.
+ */
+export async function convertContent(
+  page: ImportPage,
+  plan: ImportPlan,
+  pageIds: Record<string, string>,
+  workspaceSlug: string
+): Promise<string> {
+  if (!page.source) return "";
+
+  let content = parseFrontmatter(readFileSync(page.source, "utf-8")).content.trim();
+  const source = page.source;
+
+  // Notion repeats the page title as the first heading
+  if (plan.format === "notion") {
+    content = content.replace(/^#\s+(.+)\n*/, (match, heading: string) => (heading.trim() === page.title ? "" : match));
+  }
+
+  const keysBySource = new Map(plan.pages.filter((p) => p.source).map((p) => [p.source!, p.key]));
+  const pageLink = (path: string | null): string | null => {
+    const key = path ? keysBySource.get(path) : undefined;
+    return key && pageIds[key] ? getPageUrl(pageIds[key]) : null;
+  };
+
+  const uploads = new Map<string, string>();
+  const upload = async (path: string) => {
+    if (!uploads.has(path)) uploads.set(path, await importAsset(path, workspaceSlug));
+  };
+
+  if (plan.format === "obsidian") {
+    const files = indexFiles(plan);
+    const embeds: string[] = [];
+    mapOutsideCode(content, (text) => {
+      for (const match of text.matchAll(OBSIDIAN_EMBED)) {
+        const path = resolveVaultTarget(match[1], plan, files);
+        if (path && !path.endsWith(".md")) embeds.push(path);
+      }
+      return text;
+    });
+    for (const path of embeds) await upload(path);
+
+    content = mapOutsideCode(content, (text) =>
+      text
+        .replace(OBSIDIAN_EMBED, (match, target: string) => {
+          const path = resolveVaultTarget(target, plan, files);
+          if (path && uploads.has(path)) return `![${basename(path)}](${uploads.get(path)})`;
+          const link = pageLink(path);
+          return link ? `[${target.trim()}](${link})` : match;
+        })
+        .replace(OBSIDIAN_LINK, (match, target: string, alias?: string) => {
+          const link = pageLink(resolveVaultTarget(target, plan, files));
+          return link ? `[${(alias ?? target.split("#")[0]).trim()}](${link})` : match;
+        })
+    );
+  }
+
+  // Only files inside the imported directory, also when reached by symlink
+  const isAttachment = (target: string) => {
+    if (!isLocalTarget(target)) return null;
+    const path = resolveLocalTarget(target, source);
+    if (path.endsWith(".md") || !existsSync(path) || !statSync(path).isFile()) return null;
+    return isInside(realpathSync(path), realpathSync(plan.dir)) ? path : null;
+  };
+
+  const attachments: string[] = [];
+  rewriteLinkTargets(content, (target) => {
+    const path = isAttachment(target);
+    if (path) attachments.push(path);
+    return null;
+  });
+  for (const path of attachments) await upload(path);
+
+  return rewriteLinkTargets(content, (target) => {
+    if (!isLocalTarget(target)) return null;
+    const path = resolveLocalTarget(target, source);
+    return uploads.get(path) ?? pageLink(path);
+  });
+}
+
+function getStatePath(dir: string, workspace: string, format: ImportFormat): string {
+  const id = createHash("sha256").update(`${resolve(dir)}\n${workspace}\n${format}`).digest("hex").slice(0, 16);
+  return join(getSyncDir(), "imports", `${id}.json`);
+}
+
+/**
+ * Progress of an earlier, interrupted import of the same directory into the
+ * same workspace, or a fresh state
+ */
+export function loadImportState(dir: string, workspace: string, format: ImportFormat): ImportState {
+  const statePath = getStatePath(dir, workspace, format);
+  if (existsSync(statePath)) {
+    try {
+      return JSON.parse(readFileSync(statePath, "utf-8")) as ImportState;
+    } catch {
+      // Start over
+    }
+  }
+  return { dir: resolve(dir), workspace, format, pages: {}, written: [], databases: {} };
+}
+
+export function saveImportState(state: ImportState): void {
+  const statePath = getStatePath(state.dir, state.workspace, state.format);
+  mkdirSync(dirname(statePath), { recursive: true });
+  writeFileSync(statePath, JSON.stringify(state, null, 2) + "\n", "utf-8");
+}
+
+export function clearImportState(state: ImportState): void {
+  rmSync(getStatePath(state.dir, state.workspace, state.format), { force: true });
+}
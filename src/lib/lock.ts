@@ -0,0 +1,84 @@
+import { closeSync, existsSync, mkdirSync, openSync, readFileSync, unlinkSync, writeSync } from "fs";
+import { join } from "path";
+import { flushSyncState, getSyncDir } from "./sync-state.js";
+import { flushSearchIndex } from "./search-index.js";
+
+let held = false;
+
+function getLockPath(): string {
+  return join(getSyncDir(), "sync.lock");
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/**
+ * Take the pages directory's sync lock so that only one lh process writes
+ * pages at a time. Locks left behind by dead processes are taken over.
+ */
+export function acquireSyncLock(): void {
+  if (held) return;
+
+  const lockPath = getLockPath();
+  const dir = getSyncDir();
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      const fd = openSync(lockPath, "wx");
+      writeSync(fd, String(process.pid));
+      closeSync(fd);
+      held = true;
+      process.on("exit", releaseSyncLock);
+      return;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+
+      const pid = parseInt(readFileSync(lockPath, "utf-8"), 10);
+      if (pid && isProcessAlive(pid)) {
+        throw new Error(`Another lh process (pid ${pid}) is syncing. Try again when it's done.`);
+      }
+
+      // Stale lock from a process that exited without cleaning up
+      unlinkSync(lockPath);
+    }
+  }
+
+  throw new Error("Could not acquire the sync lock");
+}
+
+export function releaseSyncLock(): void {
+  if (!held) return;
+  held = false;
+  process.removeListener("exit", releaseSyncLock);
+
+  // Let the next lock holder see our sync-state and search index changes
+  flushSyncState();
+  flushSearchIndex();
+
+  const lockPath = getLockPath();
+  if (existsSync(lockPath)) {
+    unlinkSync(lockPath);
+  }
+}
+
+/**
+ * Run a sync operation while holding the sync lock
+ */
+export async function withSyncLock<T>(fn: () => Promise<T>): Promise<T> {
+  acquireSyncLock();
+  try {
+    return await fn();
+  } finally {
+    releaseSyncLock();
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * Markdown helpers: reading frontmatter, and finding and rewriting links in
+ * page content.
+ */
+
+import { dirname, resolve } from "path";
+import matter from "gray-matter";
+import yaml from "js-yaml";
+
+const FENCE = /^(```|~~~)/;
+
+/**
+ * Split a Markdown file into frontmatter and content. Values are read with
+ * the core YAML schema, so dates like 2026-01-01 stay strings instead of
+ * becoming Date objects that are written back as timestamps.
+ */
+export function parseFrontmatter(text: string): matter.GrayMatterFile<string> {
+  return matter(text, {
+    engines: { yaml: (input: string) => (yaml.load(input, { schema: yaml.CORE_SCHEMA }) ?? {}) as object },
+  });
+}
+
+/**
+ * Apply a transform to the prose of a Markdown document, leaving fenced and
+ * inline code untouched
+ */
+export function mapOutsideCode(content: string, transform: (text: string) => string): string {
+  const lines = content.split("\n");
+  const output: string[] = [];
+  let prose: string[] = [];
+  let fence: string | null = null;
+
+  const flushProse = () => {
+    if (prose.length === 0) return;
+    // Split on inline code spans; odd indexes are code
+    const parts = prose.join("\n").split(/(`[^`\n]*`)/);
+    output.push(parts.map((part, index) => (index % 2 === 1 ? part : transform(part))).join(""));
+    prose = [];
+  };
+
+  for (const line of lines) {
+    const marker = line.trimStart().match(FENCE)?.[1];
+    if (fence) {
+      output.push(line);
+      if (marker === fence) fence = null;
+    } else if (marker) {
+      flushProse();
+      output.push(line);
+      fence = marker;
+    } else {
+      prose.push(line);
+    }
+  }
+  flushProse();
+
+  return output.join("\n");
+}
+
+export type LinkKind = "image" | "link";
+
+// ![alt](target "title") and [text](target "title")
+const MARKDOWN_LINK = /(!?)\[([^\]\n]*)\]\(\s*(<[^>\n]+>|[^\s)]+)(\s+"[^"\n]*")?\s*\)/g;
+// <img src="target">
+const HTML_IMAGE = /(<img\b[^>]*?\bsrc=)(["'])([^"']+)\2/gi;
+
+/**
+ * Rewrite the targets of Markdown links and images (and HTML image tags).
+ * The callback returns the new target, or null to keep the link as it is.
+ */
+export function rewriteLinkTargets(
+  content: string,
+  rewrite: (target: string, kind: LinkKind) => string | null
+): string {
+  return mapOutsideCode(content, (text) =>
+    text
+      .replace(MARKDOWN_LINK, (match, bang: string, label: string, rawTarget: string, title = "") => {
+        const target = rawTarget.startsWith("<") ? rawTarget.slice(1, -1) : rawTarget;
+        const replaced = rewrite(target, bang ? "image" : "link");
+        if (replaced === null || replaced === target) return match;
+        return `${bang}[${label}](${formatTarget(replaced)}${title})`;
+      })
+      .replace(HTML_IMAGE, (match, prefix: string, quote: string, target: string) => {
+        const replaced = rewrite(target, "image");
+        if (replaced === null || replaced === target) return match;
+        return `${prefix}${quote}${replaced}${quote}`;
+      })
+  );
+}
+
+/**
+ * List the targets of all Markdown links and images in a document
+ */
+export function findLinkTargets(content: string): Array<{ target: string; kind: LinkKind }> {
+  const targets: Array<{ target: string; kind: LinkKind }> = [];
+  rewriteLinkTargets(content, (target, kind) => {
+    targets.push({ target, kind });
+    return null;
+  });
+  return targets;
+}
+
+function formatTarget(target: string): string {
+  return /[\s()]/.test(target) ? `<${target}>` : target;
+}
+
+/**
+ * Whether a link target points at a local file (rather than a URL, anchor
+ * or another scheme such as mailto:)
+ */
+export function isLocalTarget(target: string): boolean {
+  return !/^[a-z][a-z0-9+.-]*:/i.test(target) && !target.startsWith("#") && !target.startsWith("/");
+}
+
+/**
+ * Absolute path of a local link target in the file at pagePath
+ */
+export function resolveLocalTarget(target: string, pagePath: string): string {
+  let path = target.split("#")[0];
+  try {
+    path = decodeURI(path);
+  } catch {
+    // Not percent-encoded after all
+  }
+  return resolve(dirname(pagePath), path);
+}
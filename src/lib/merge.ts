@@ -0,0 +1,83 @@
+import { matchLines, splitLines } from "./diff.js";
+
+export const CONFLICT_START = "<<<<<<< local";
+export const CONFLICT_SEPARATOR = "=======";
+export const CONFLICT_END = ">>>>>>> remote";
+
+export interface MergeResult {
+  content: string;
+  conflicts: number;
+}
+
+/**
+ * Line-level three-way merge (diff3) of a common base with local and remote
+ * versions. Regions changed on only one side are taken from that side;
+ * overlapping changes are wrapped in conflict markers.
+ */
+export function mergeThreeWay(base: string, local: string, remote: string): MergeResult {
+  const baseLines = splitLines(base);
+  const localLines = splitLines(local);
+  const remoteLines = splitLines(remote);
+
+  // For each base line, the index of the matching line on each side (or -1)
+  const localMatch = new Array<number>(baseLines.length).fill(-1);
+  const remoteMatch = new Array<number>(baseLines.length).fill(-1);
+  for (const [i, j] of matchLines(baseLines, localLines)) localMatch[i] = j;
+  for (const [i, k] of matchLines(baseLines, remoteLines)) remoteMatch[i] = k;
+
+  const output: string[] = [];
+  let conflicts = 0;
+  let i = 0;
+  let j = 0;
+  let k = 0;
+
+  while (i < baseLines.length || j < localLines.length || k < remoteLines.length) {
+    // Stable line: unchanged in both versions
+    if (i < baseLines.length && localMatch[i] === j && remoteMatch[i] === k) {
+      output.push(baseLines[i]);
+      i++;
+      j++;
+      k++;
+      continue;
+    }
+
+    // Find the next base line that survives on both sides
+    let nextI = i;
+    while (nextI < baseLines.length && (localMatch[nextI] === -1 || remoteMatch[nextI] === -1)) {
+      nextI++;
+    }
+    const nextJ = nextI < baseLines.length ? localMatch[nextI] : localLines.length;
+    const nextK = nextI < baseLines.length ? remoteMatch[nextI] : remoteLines.length;
+
+    const baseChunk = baseLines.slice(i, nextI);
+    const localChunk = localLines.slice(j, nextJ);
+    const remoteChunk = remoteLines.slice(k, nextK);
+
+    if (sameLines(localChunk, baseChunk)) {
+      output.push(...remoteChunk);
+    } else if (sameLines(remoteChunk, baseChunk) || sameLines(localChunk, remoteChunk)) {
+      output.push(...localChunk);
+    } else {
+      conflicts++;
+      output.push(CONFLICT_START, ...localChunk, CONFLICT_SEPARATOR, ...remoteChunk, CONFLICT_END);
+    }
+
+    i = nextI;
+    j = nextJ;
+    k = nextK;
+  }
+
+  return { content: output.join("\n"), conflicts };
+}
+
+/**
+ * Check whether content still contains unresolved conflict markers
+ */
+export function hasConflictMarkers(content: string): boolean {
+  const lines = splitLines(content);
+  return lines.includes(CONFLICT_START) && lines.includes(CONFLICT_END);
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index]);
+}
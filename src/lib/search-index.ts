@@ -0,0 +1,581 @@
+/**
+ * Persistent full-text index of the local pages, kept in
+ * .lumifyhub/search-index.json. Pages are re-indexed as the CLI writes them,
+ * and files edited by hand are picked up by comparing size and mtime before
+ * each search.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, statSync, writeFileSync } from "fs";
+import { dirname, join, relative, sep } from "path";
+import { getConfig } from "./config.js";
+import { getSyncDir } from "./sync-state.js";
+import { listLocalPageFiles, readLocalPage } from "./files.js";
+import type { PageMeta } from "../types/index.js";
+
+// Bump when the tokenizer or file layout changes to force a rebuild
+const INDEX_VERSION = 1;
+
+// Title words count this many times towards a page's term frequencies
+const TITLE_WEIGHT = 3;
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// Score factor for terms matched by prefix or with typos rather than exactly
+const PREFIX_FACTOR = 0.7;
+const FUZZY_FACTOR = 0.5;
+
+const SNIPPET_WIDTH = 160;
+
+interface IndexedDoc {
+  id?: string;
+  title: string;
+  workspace: string;
+  updated_at?: string;
+  mtime: number;
+  size: number;
+  // Number of (title-weighted) terms, for length normalization
+  length: number;
+  terms: string[];
+}
+
+interface SearchIndex {
+  version: number;
+  // Keyed by path relative to the pages directory
+  docs: Record<string, IndexedDoc>;
+  // term -> document path -> term frequency
+  postings: Record<string, Record<string, number>>;
+}
+
+export type SearchMode = "terms" | "fuzzy" | "regex";
+
+export interface SearchOptions {
+  mode?: SearchMode;
+  workspace?: string;
+  limit?: number;
+}
+
+export interface SearchMatch {
+  // Remote snippets from lh search --remote have no line number
+  line?: number;
+  text: string;
+}
+
+export interface SearchHit {
+  // Relative to the pages directory
+  path: string;
+  id?: string;
+  title: string;
+  workspace: string;
+  updated_at?: string;
+  score: number;
+  matches: SearchMatch[];
+  // Pattern matching the hit's matched words, for highlighting
+  highlight: RegExp | null;
+}
+
+let cachedIndex: SearchIndex | null = null;
+let dirty = false;
+let flushRegistered = false;
+
+function getIndexPath(): string {
+  return join(getSyncDir(), "search-index.json");
+}
+
+/**
+ * Postings without a prototype, so words like "constructor" are keys of
+ * their own rather than inherited Object members
+ */
+export function createPostings(
+  entries: Record<string, Record<string, number>> = {}
+): Record<string, Record<string, number>> {
+  return Object.assign(Object.create(null), entries);
+}
+
+function emptyIndex(): SearchIndex {
+  return { version: INDEX_VERSION, docs: {}, postings: createPostings() };
+}
+
+function loadIndex(): SearchIndex {
+  if (cachedIndex) return cachedIndex;
+
+  const indexPath = getIndexPath();
+  cachedIndex = emptyIndex();
+  if (existsSync(indexPath)) {
+    try {
+      const stored = JSON.parse(readFileSync(indexPath, "utf-8")) as SearchIndex;
+      if (stored.version === INDEX_VERSION) {
+        cachedIndex = { ...stored, postings: createPostings(stored.postings) };
+      }
+    } catch {
+      // Corrupt index - rebuilt from the files
+    }
+  }
+  return cachedIndex;
+}
+
+function markDirty(): void {
+  dirty = true;
+  if (flushRegistered) return;
+  flushRegistered = true;
+  process.on("exit", flushSearchIndex);
+}
+
+/**
+ * Write pending index changes to disk and drop the in-memory copy
+ */
+export function flushSearchIndex(): void {
+  const index = cachedIndex;
+  cachedIndex = null;
+  if (!index || !dirty) return;
+  dirty = false;
+
+  const indexPath = getIndexPath();
+  mkdirSync(dirname(indexPath), { recursive: true });
+  // Write then rename, so concurrent searches never read half a file
+  const tempPath = `${indexPath}.${process.pid}.tmp`;
+  writeFileSync(tempPath, JSON.stringify(index), "utf-8");
+  renameSync(tempPath, indexPath);
+}
+
+/**
+ * Split text into lowercase words
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+function toIndexKey(pagePath: string): string {
+  return relative(getConfig().pagesDir, pagePath).split(sep).join("/");
+}
+
+function removeDoc(index: SearchIndex, key: string): void {
+  const doc = index.docs[key];
+  if (!doc) return;
+
+  for (const term of doc.terms) {
+    if (!Object.hasOwn(index.postings, term)) continue;
+    const posting = index.postings[term];
+    delete posting[key];
+    if (Object.keys(posting).length === 0) delete index.postings[term];
+  }
+  delete index.docs[key];
+}
+
+/**
+ * Add or replace a page in the search index
+ */
+export function indexPage(pagePath: string, meta: PageMeta, content: string): void {
+  if (!existsSync(pagePath)) return;
+
+  const index = loadIndex();
+  const key = toIndexKey(pagePath);
+  removeDoc(index, key);
+
+  const frequencies = countTerms(meta.title ?? "", content);
+
+  let length = 0;
+  for (const [term, frequency] of frequencies) {
+    (index.postings[term] ??= {})[key] = frequency;
+    length += frequency;
+  }
+
+  const stat = statSync(pagePath);
+  index.docs[key] = {
+    id: meta.id || undefined,
+    title: meta.title ?? "",
+    workspace: key.split("/")[0],
+    updated_at: meta.updated_at || undefined,
+    mtime: stat.mtimeMs,
+    size: stat.size,
+    length,
+    terms: [...frequencies.keys()],
+  };
+  markDirty();
+}
+
+/**
+ * Drop a page that was deleted or moved away from the search index
+ */
+export function removeFromIndex(pagePath: string): void {
+  const index = loadIndex();
+  const key = toIndexKey(pagePath);
+  if (!index.docs[key]) return;
+  removeDoc(index, key);
+  markDirty();
+}
+
+/**
+ * Bring the index up to date with the files on disk. Only files whose size
+ * or modification time changed are read.
+ */
+export function refreshSearchIndex(): void {
+  const index = loadIndex();
+  const seen = new Set<string>();
+
+  for (const path of listLocalPageFiles()) {
+    const key = toIndexKey(path);
+    seen.add(key);
+
+    const doc = index.docs[key];
+    const stat = statSync(path);
+    if (doc && doc.mtime === stat.mtimeMs && doc.size === stat.size) continue;
+
+    const page = readLocalPage(path);
+    if (page) indexPage(path, page.meta, page.content);
+  }
+
+  for (const key of Object.keys(index.docs)) {
+    if (!seen.has(key)) {
+      removeDoc(index, key);
+      markDirty();
+    }
+  }
+}
+
+type Comparison = ">" | ">=" | "<" | "<=" | "=";
+
+export interface ParsedQuery {
+  terms: string[];
+  phrases: string[];
+  // Everything but the filters, for --regex
+  text: string;
+  title?: string;
+  workspace?: string;
+  updated?: { op: Comparison; value: string };
+}
+
+const FILTER = /^(title|workspace|updated):(?:"([^"]*)"|(\S*))$/;
+
+/**
+ * Split a query into words, "quoted phrases" and title:, workspace: and
+ * updated: filters
+ */
+export function parseQuery(query: string): ParsedQuery {
+  const parsed: ParsedQuery = { terms: [], phrases: [], text: "" };
+  const rest: string[] = [];
+
+  for (const [token] of query.matchAll(/\S+:"[^"]*"|"[^"]*"|\S+/g)) {
+    const filter = token.match(FILTER);
+    if (filter) {
+      const value = filter[2] ?? filter[3];
+      if (filter[1] === "title") parsed.title = value.toLowerCase();
+      else if (filter[1] === "workspace") parsed.workspace = value;
+      else {
+        const comparison = value.match(/^(>=|<=|>|<|=)?(.+)$/);
+        if (comparison) {
+          parsed.updated = { op: (comparison[1] as Comparison) ?? "=", value: comparison[2] };
+        }
+      }
+      continue;
+    }
+
+    rest.push(token);
+    if (token.startsWith('"') && token.endsWith('"') && token.length > 1) {
+      const words = tokenize(token);
+      if (words.length > 1) parsed.phrases.push(words.join(" "));
+      parsed.terms.push(...words);
+    } else {
+      parsed.terms.push(...tokenize(token));
+    }
+  }
+
+  parsed.text = rest.join(" ");
+  return parsed;
+}
+
+/**
+ * Whether an updated_at timestamp satisfies an updated: filter. Bare dates
+ * compare by day.
+ */
+export function matchesUpdated(updatedAt: string | undefined, filter: NonNullable<ParsedQuery["updated"]>): boolean {
+  if (!updatedAt) return false;
+
+  let actual: string;
+  let expected: string;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(filter.value)) {
+    actual = updatedAt.slice(0, 10);
+    expected = filter.value;
+  } else {
+    const date = new Date(filter.value);
+    if (isNaN(date.getTime())) return false;
+    actual = new Date(updatedAt).toISOString();
+    expected = date.toISOString();
+  }
+
+  switch (filter.op) {
+    case ">":
+      return actual > expected;
+    case ">=":
+      return actual >= expected;
+    case "<":
+      return actual < expected;
+    case "<=":
+      return actual <= expected;
+    default:
+      return actual === expected;
+  }
+}
+
+/**
+ * Edit distance between two words (with transpositions), giving up once it
+ * exceeds max
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous2: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], previous2[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous2 = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Typos allowed for a word of this length
+ */
+function allowedTypos(term: string): number {
+  if (term.length <= 3) return 0;
+  return term.length <= 7 ? 1 : 2;
+}
+
+/**
+ * Index terms a query word matches, with how well each one matches
+ */
+function expandTerm(index: TermIndex, term: string, mode: SearchMode): Map<string, number> {
+  const expansions = new Map<string, number>();
+  if (Object.hasOwn(index.postings, term)) expansions.set(term, 1);
+
+  const maxTypos = mode === "fuzzy" ? allowedTypos(term) : 0;
+  for (const candidate of Object.keys(index.postings)) {
+    if (candidate === term) continue;
+    if (term.length >= 3 && candidate.startsWith(term)) {
+      expansions.set(candidate, PREFIX_FACTOR);
+    } else if (maxTypos > 0) {
+      const distance = editDistance(term, candidate, maxTypos);
+      if (distance <= maxTypos) expansions.set(candidate, FUZZY_FACTOR / distance);
+    }
+  }
+  return expansions;
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Lines of a page matching a pattern, cut down to a window around the match
+ */
+function findMatches(content: string, pattern: RegExp): SearchMatch[] {
+  const matches: SearchMatch[] = [];
+  const lines = content.split("\n");
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    pattern.lastIndex = 0;
+    const match = pattern.exec(line);
+    if (!match) continue;
+
+    let text = line;
+    if (text.length > SNIPPET_WIDTH) {
+      const start = Math.max(0, Math.min(match.index - SNIPPET_WIDTH / 3, text.length - SNIPPET_WIDTH));
+      text = `${start > 0 ? "…" : ""}${text.slice(start, start + SNIPPET_WIDTH)}${start + SNIPPET_WIDTH < line.length ? "…" : ""}`;
+    }
+    matches.push({ line: i + 1, text });
+  }
+  return matches;
+}
+
+function passesFilters(doc: IndexedDoc, query: ParsedQuery, options: SearchOptions): boolean {
+  const workspace = query.workspace ?? options.workspace;
+  if (workspace && doc.workspace !== workspace) return false;
+  if (query.title !== undefined && !doc.title.toLowerCase().includes(query.title)) return false;
+  if (query.updated && !matchesUpdated(doc.updated_at, query.updated)) return false;
+  return true;
+}
+
+function toHit(key: string, doc: IndexedDoc, score: number): SearchHit {
+  return {
+    path: key,
+    id: doc.id,
+    title: doc.title,
+    workspace: doc.workspace,
+    updated_at: doc.updated_at,
+    score,
+    matches: [],
+    highlight: null,
+  };
+}
+
+// The parts of an index needed for ranking; database rows are ranked with
+// an in-memory one
+export interface TermIndex {
+  docs: Record<string, { length: number }>;
+  postings: Record<string, Record<string, number>>;
+}
+
+/**
+ * Count term frequencies of a document, title words weighted higher
+ */
+export function countTerms(title: string, body: string): Map<string, number> {
+  const frequencies = new Map<string, number>();
+  for (const term of tokenize(body)) {
+    frequencies.set(term, (frequencies.get(term) ?? 0) + 1);
+  }
+  for (const term of tokenize(title)) {
+    frequencies.set(term, (frequencies.get(term) ?? 0) + TITLE_WEIGHT);
+  }
+  return frequencies;
+}
+
+/**
+ * Score the candidate documents against the query words with BM25. Only
+ * documents matching every word are returned; words lists the index terms
+ * that matched, for highlighting.
+ */
+export function rankDocs(
+  index: TermIndex,
+  candidates: string[],
+  terms: string[],
+  mode: SearchMode
+): { scores: Map<string, number>; words: string[] } {
+  const total = Object.keys(index.docs).length;
+  const averageLength = Object.values(index.docs).reduce((sum, doc) => sum + doc.length, 0) / Math.max(total, 1);
+
+  const scores = new Map(candidates.map((key) => [key, 0]));
+  const words: string[] = [];
+
+  for (const term of new Set(terms)) {
+    const expansions = expandTerm(index, term, mode);
+    const termScores = new Map<string, number>();
+
+    for (const [candidate, factor] of expansions) {
+      const posting = index.postings[candidate];
+      const idf = Math.log(1 + (total - Object.keys(posting).length + 0.5) / (Object.keys(posting).length + 0.5));
+      for (const [key, frequency] of Object.entries(posting)) {
+        if (!scores.has(key)) continue;
+        const length = index.docs[key].length;
+        const tf = (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + (B * length) / averageLength));
+        termScores.set(key, Math.max(termScores.get(key) ?? 0, idf * tf * factor));
+      }
+      words.push(candidate);
+    }
+
+    for (const key of [...scores.keys()]) {
+      const termScore = termScores.get(key);
+      if (termScore === undefined) scores.delete(key);
+      else scores.set(key, scores.get(key)! + termScore);
+    }
+  }
+
+  return { scores, words };
+}
+
+/**
+ * Pattern matching any of the given words as whole words
+ */
+export function wordsPattern(words: string[]): RegExp | null {
+  if (words.length === 0) return null;
+  return new RegExp(`(?<![\\p{L}\\p{N}])(${words.map(escapeRegex).join("|")})(?![\\p{L}\\p{N}])`, "giu");
+}
+
+/**
+ * Patterns for quoted phrases, allowing any punctuation between the words
+ */
+export function phrasePatterns(query: ParsedQuery): RegExp[] {
+  return query.phrases.map(
+    (phrase) => new RegExp(phrase.split(" ").map(escapeRegex).join("[^\\p{L}\\p{N}]+"), "iu")
+  );
+}
+
+/**
+ * Rank pages against the query words with BM25, requiring every word (and
+ * every quoted phrase) to match
+ */
+function searchTerms(index: SearchIndex, query: ParsedQuery, options: SearchOptions): SearchHit[] {
+  const { pagesDir } = getConfig();
+  const keys = Object.keys(index.docs).filter((key) => passesFilters(index.docs[key], query, options));
+
+  // Filters alone list the matching pages, most recently updated first
+  if (query.terms.length === 0) {
+    return keys
+      .map((key) => toHit(key, index.docs[key], 0))
+      .sort((a, b) => (b.updated_at ?? "").localeCompare(a.updated_at ?? ""));
+  }
+
+  const { scores, words } = rankDocs(index, keys, query.terms, options.mode ?? "terms");
+  const highlight = wordsPattern(words);
+  const phrases = phrasePatterns(query);
+
+  const hits: SearchHit[] = [];
+  for (const [key, score] of scores) {
+    const page = readLocalPage(join(pagesDir, key));
+    if (!page) continue;
+    if (!phrases.every((phrase) => phrase.test(page.content) || phrase.test(page.meta.title ?? ""))) continue;
+
+    const hit = toHit(key, index.docs[key], score);
+    hit.highlight = highlight;
+    hit.matches = highlight ? findMatches(page.content, highlight) : [];
+    hits.push(hit);
+  }
+
+  return hits.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Match pages against a regular expression, ranked by number of matches
+ */
+function searchRegex(index: SearchIndex, query: ParsedQuery, options: SearchOptions): SearchHit[] {
+  const { pagesDir } = getConfig();
+  const pattern = new RegExp(query.text, "giu");
+  const hits: SearchHit[] = [];
+
+  for (const [key, doc] of Object.entries(index.docs)) {
+    if (!passesFilters(doc, query, options)) continue;
+
+    const page = readLocalPage(join(pagesDir, key));
+    if (!page) continue;
+
+    const matches = findMatches(page.content, pattern);
+    pattern.lastIndex = 0;
+    const titleMatch = pattern.test(doc.title);
+    if (matches.length === 0 && !titleMatch) continue;
+
+    const hit = toHit(key, doc, matches.length + (titleMatch ? TITLE_WEIGHT : 0));
+    hit.matches = matches;
+    hit.highlight = pattern;
+    hits.push(hit);
+  }
+
+  return hits.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Search the local pages. Throws on an invalid --regex pattern.
+ */
+export function search(query: string, options: SearchOptions = {}): SearchHit[] {
+  refreshSearchIndex();
+  const index = loadIndex();
+  const parsed = parseQuery(query);
+
+  const hits =
+    options.mode === "regex" && parsed.text
+      ? searchRegex(index, parsed, options)
+      : searchTerms(index, parsed, options);
+
+  return options.limit ? hits.slice(0, options.limit) : hits;
+}
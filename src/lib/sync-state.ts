@@ -0,0 +1,212 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname, join, relative, sep } from "path";
+import { getConfig } from "./config.js";
+
+// Sync metadata kept in the index instead of frontmatter in sidecar mode
+export interface SidecarMeta {
+  workspace_id?: string;
+  updated_at?: string;
+  local_hash?: string;
+  remote_hash?: string;
+  conflict?: boolean;
+  properties_hash?: string;
+}
+
+export interface SyncStateEntry extends SidecarMeta {
+  // Path of the page file, relative to the pages directory
+  path: string;
+  workspace_slug: string;
+  slug?: string;
+  parent_id?: string;
+}
+
+// Where page sync metadata lives: in each file's frontmatter (the
+// default), or in this index with only id and title left in the file
+export type MetadataMode = "frontmatter" | "sidecar";
+
+interface SyncState {
+  mode?: MetadataMode;
+  pages: Record<string, SyncStateEntry>;
+}
+
+const SIDECAR_KEYS: Array<keyof SidecarMeta> = [
+  "workspace_id",
+  "updated_at",
+  "local_hash",
+  "remote_hash",
+  "conflict",
+  "properties_hash",
+];
+
+// Loaded on first use and written back by flushSyncState (at the latest
+// on exit)
+let cachedState: SyncState | null = null;
+let dirty = false;
+let flushRegistered = false;
+
+// Child page ids by parent id, built from the loaded index on first use
+let childIds: Map<string, Set<string>> | null = null;
+
+/**
+ * Directory for CLI bookkeeping inside the pages directory
+ */
+export function getSyncDir(): string {
+  const config = getConfig();
+  return join(config.pagesDir, ".lumifyhub");
+}
+
+function getSyncStatePath(): string {
+  return join(getSyncDir(), "state.json");
+}
+
+/**
+ * Whether a sync-state index exists for this pages directory, on disk or
+ * about to be written
+ */
+export function hasSyncState(): boolean {
+  return dirty || existsSync(getSyncStatePath());
+}
+
+function loadSyncState(): SyncState {
+  if (cachedState) return cachedState;
+  childIds = null;
+
+  const statePath = getSyncStatePath();
+  if (existsSync(statePath)) {
+    try {
+      cachedState = JSON.parse(readFileSync(statePath, "utf-8")) as SyncState;
+    } catch {
+      cachedState = { pages: {} };
+    }
+  } else {
+    cachedState = { pages: {} };
+  }
+
+  return cachedState;
+}
+
+function markDirty(): void {
+  dirty = true;
+  if (flushRegistered) return;
+  flushRegistered = true;
+  process.on("exit", flushSyncState);
+}
+
+/**
+ * Write pending sync-state changes to disk and drop the in-memory copy, so
+ * changes made by other lh processes are picked up on next use
+ */
+export function flushSyncState(): void {
+  const state = cachedState;
+  cachedState = null;
+  childIds = null;
+  if (!state || !dirty) return;
+  dirty = false;
+
+  const statePath = getSyncStatePath();
+  const dir = dirname(statePath);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+  writeFileSync(statePath, JSON.stringify(state, null, 2) + "\n", "utf-8");
+}
+
+export function getMetadataMode(): MetadataMode {
+  return loadSyncState().mode ?? "frontmatter";
+}
+
+export function isSidecarMode(): boolean {
+  return getMetadataMode() === "sidecar";
+}
+
+/**
+ * Switch where sync metadata is kept. Entries keep their sidecar fields
+ * only in sidecar mode.
+ */
+export function setMetadataMode(mode: MetadataMode): void {
+  const state = loadSyncState();
+  state.mode = mode;
+  if (mode === "frontmatter") {
+    for (const entry of Object.values(state.pages)) {
+      for (const key of SIDECAR_KEYS) delete entry[key];
+    }
+  }
+  markDirty();
+}
+
+/**
+ * Get all pages known to have been synced, keyed by page id
+ */
+export function getSyncedPages(): Record<string, SyncStateEntry> {
+  return loadSyncState().pages;
+}
+
+function getChildIndex(): Map<string, Set<string>> {
+  if (childIds) return childIds;
+
+  const index = new Map<string, Set<string>>();
+  for (const [id, entry] of Object.entries(loadSyncState().pages)) {
+    if (entry.parent_id) addChild(index, entry.parent_id, id);
+  }
+  childIds = index;
+  return index;
+}
+
+function addChild(index: Map<string, Set<string>>, parentId: string, id: string): void {
+  let children = index.get(parentId);
+  if (!children) index.set(parentId, (children = new Set()));
+  children.add(id);
+}
+
+/**
+ * Ids of the synced pages whose parent is the given page
+ */
+export function getChildPageIds(pageId: string): string[] {
+  return [...(getChildIndex().get(pageId) ?? [])].filter((id) => id !== pageId);
+}
+
+/**
+ * Record where a synced page lives locally and where it sits in the
+ * page hierarchy. In sidecar mode this also stores the page's sync
+ * metadata.
+ */
+export function recordSyncedPage(
+  pageId: string,
+  pagePath: string,
+  meta: SidecarMeta & { workspace_slug: string; slug?: string; parent_id?: string | null }
+): void {
+  const { pagesDir } = getConfig();
+  const state = loadSyncState();
+  const entry: SyncStateEntry = {
+    path: relative(pagesDir, pagePath).split(sep).join("/"),
+    workspace_slug: meta.workspace_slug,
+  };
+  if (meta.slug) entry.slug = meta.slug;
+  if (meta.parent_id) entry.parent_id = meta.parent_id;
+
+  if (state.mode === "sidecar") {
+    for (const key of SIDECAR_KEYS) {
+      if (meta[key] !== undefined) Object.assign(entry, { [key]: meta[key] });
+    }
+  }
+
+  const previousParent = state.pages[pageId]?.parent_id;
+  state.pages[pageId] = entry;
+  if (childIds && previousParent !== entry.parent_id) {
+    if (previousParent) childIds.get(previousParent)?.delete(pageId);
+    if (entry.parent_id) addChild(childIds, entry.parent_id, pageId);
+  }
+  markDirty();
+}
+
+/**
+ * Stop tracking a page, e.g. after it was deleted on either side
+ */
+export function forgetSyncedPage(pageId: string): void {
+  const state = loadSyncState();
+  if (!(pageId in state.pages)) return;
+  const parentId = state.pages[pageId].parent_id;
+  if (parentId) childIds?.get(parentId)?.delete(pageId);
+  delete state.pages[pageId];
+  markDirty();
+}
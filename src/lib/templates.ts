@@ -0,0 +1,133 @@
+/**
+ * Page templates for lh new. Templates are Markdown files in the
+ * _templates folder of the pages directory, or children of a page titled
+ * "Templates" on LumifyHub. Local templates win over remote ones with the
+ * same name.
+ */
+
+import { existsSync, readdirSync, readFileSync } from "fs";
+import { basename, join } from "path";
+import { getConfig } from "./config.js";
+import { api } from "./api.js";
+import { parseFrontmatter } from "./markdown.js";
+
+export const TEMPLATES_DIR = "_templates";
+export const TEMPLATES_PAGE_TITLE = "Templates";
+
+// {{name}}, with optional spaces inside the braces
+const PLACEHOLDER = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+export interface Template {
+  name: string;
+  source: "local" | "remote";
+  // _templates/<file> for local templates, workspace/slug for remote ones
+  location: string;
+  // Default title for new pages, may contain placeholders
+  title?: string;
+  description?: string;
+  content: string;
+}
+
+export function getTemplatesDir(): string {
+  return join(getConfig().pagesDir, TEMPLATES_DIR);
+}
+
+function toTemplateName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-|-$/g, "");
+}
+
+function parseTemplate(
+  name: string,
+  source: Template["source"],
+  location: string,
+  raw: string
+): Template {
+  const { data, content } = parseFrontmatter(raw);
+  return {
+    name,
+    source,
+    location,
+    title: typeof data.title === "string" ? data.title : undefined,
+    description: typeof data.description === "string" ? data.description : undefined,
+    content: content.replace(/^\n+/, ""),
+  };
+}
+
+export function listLocalTemplates(): Template[] {
+  const dir = getTemplatesDir();
+  if (!existsSync(dir)) return [];
+
+  return readdirSync(dir)
+    .filter((file) => file.endsWith(".md"))
+    .sort()
+    .map((file) => {
+      const raw = readFileSync(join(dir, file), "utf-8");
+      return parseTemplate(basename(file, ".md"), "local", `${TEMPLATES_DIR}/${file}`, raw);
+    });
+}
+
+/**
+ * Children of the "Templates" pages across all workspaces
+ */
+export async function listRemoteTemplates(): Promise<Template[]> {
+  const pages = await api.getPages();
+  const parents = new Set(pages.filter((page) => page.title === TEMPLATES_PAGE_TITLE).map((page) => page.id));
+
+  return pages
+    .filter((page) => page.parent_id && parents.has(page.parent_id))
+    .sort((a, b) => a.title.localeCompare(b.title))
+    .map((page) =>
+      parseTemplate(toTemplateName(page.title), "remote", `${page.workspace_slug}/${page.slug}`, page.content)
+    );
+}
+
+/**
+ * Find a template by name, looking at the local folder before LumifyHub
+ */
+export async function findTemplate(name: string): Promise<Template | null> {
+  const wanted = toTemplateName(name);
+  const local = listLocalTemplates().find((template) => toTemplateName(template.name) === wanted);
+  if (local) return local;
+
+  const remote = await listRemoteTemplates();
+  return remote.find((template) => template.name === wanted) ?? null;
+}
+
+/**
+ * Values of the built-in variables
+ */
+export function getBuiltInVariables(title: string): Record<string, string> {
+  const now = new Date();
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const date = `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+  const time = `${pad(now.getHours())}:${pad(now.getMinutes())}`;
+  const email = getConfig().email ?? "";
+
+  return {
+    date,
+    time,
+    datetime: `${date} ${time}`,
+    title,
+    user: email.split("@")[0],
+    email,
+  };
+}
+
+/**
+ * Placeholders in the text, in order of first appearance
+ */
+export function getPlaceholders(text: string): string[] {
+  const names = new Set<string>();
+  for (const match of text.matchAll(PLACEHOLDER)) names.add(match[1]);
+  return [...names];
+}
+
+/**
+ * Fill in placeholders. Ones without a value are left as they are.
+ */
+export function renderTemplate(text: string, values: Record<string, string>): string {
+  return text.replace(PLACEHOLDER, (match, name: string) => values[name] ?? match);
+}
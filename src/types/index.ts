@@ -4,6 +4,9 @@ export interface Config {
   userId: string | null;
   email: string | null;
   pagesDir: string;
+  databasesDir: string;
+  // Frontmatter keys synced as LumifyHub page properties, e.g. tags
+  propertyKeys: string[];
 }
 
 export interface PageMeta {
@@ -15,6 +18,10 @@ export interface PageMeta {
   updated_at: string;
   local_hash: string;
   remote_hash: string;
+  parent_id?: string;
+  conflict?: boolean;
+  // Hash of the synced page properties, when the server supports them
+  properties_hash?: string;
 }
 
 export interface Page {
@@ -26,6 +33,26 @@ export interface Page {
   workspace_slug: string;
   updated_at: string;
   page_type: string;
+  parent_id?: string | null;
+  // Only returned by servers that support page properties
+  properties?: Record<string, unknown>;
+}
+
+export interface RemoteSearchResult {
+  id: string;
+  title: string;
+  slug: string;
+  workspace_slug: string;
+  updated_at: string;
+  score: number;
+  // Excerpts of the matching text, without markup
+  snippets: string[];
+}
+
+export interface PageHash {
+  hash: string;
+  // Sent by servers that also track metadata changes (title, parent, workspace, ...)
+  updated_at?: string;
 }
 
 export interface Workspace {